@@ -0,0 +1,30 @@
+-- Private aliases and notes for buddies
+-- Run this in your Supabase SQL Editor
+
+-- Only ever visible to the user who wrote them, never to the buddy
+CREATE TABLE buddy_aliases (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  buddy_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  alias TEXT CHECK (alias IS NULL OR char_length(btrim(alias)) BETWEEN 1 AND 48),
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 2000),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, buddy_id),
+  CHECK (user_id <> buddy_id)
+);
+
+ALTER TABLE buddy_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own buddy aliases" ON buddy_aliases
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own buddy aliases" ON buddy_aliases
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own buddy aliases" ON buddy_aliases
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own buddy aliases" ON buddy_aliases
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Chat windows and the buddy list pick up edits made elsewhere
+ALTER PUBLICATION supabase_realtime ADD TABLE buddy_aliases;
@@ -0,0 +1,95 @@
+-- Custom buddy groups ("Co-Workers", "Family") with manual ordering
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE buddy_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 48),
+  position INTEGER NOT NULL DEFAULT 0,
+  collapsed BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- Where each buddy sits in the owner's list. A NULL group_id is the built-in
+-- "Buddies" group; buddies with no row at all are there too, after the ordered ones.
+-- Deleting a group moves its buddies back to "Buddies".
+CREATE TABLE buddy_group_members (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  buddy_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  group_id UUID REFERENCES buddy_groups(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, buddy_id)
+);
+
+CREATE INDEX idx_buddy_groups_user_id ON buddy_groups(user_id);
+
+ALTER TABLE buddy_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE buddy_group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own buddy groups" ON buddy_groups
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own buddy groups" ON buddy_groups
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own buddy groups" ON buddy_groups
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own buddy groups" ON buddy_groups
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own buddy placements" ON buddy_group_members
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Only accepted buddies, and only into the user's own groups
+CREATE POLICY "Users can place own buddies" ON buddy_group_members
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND (group_id IS NULL OR group_id IN (SELECT id FROM buddy_groups WHERE user_id = auth.uid()))
+    AND EXISTS (
+      SELECT 1 FROM friends
+      WHERE status = 'accepted'
+        AND ((user_id = auth.uid() AND friend_id = buddy_id) OR (friend_id = auth.uid() AND user_id = buddy_id))
+    )
+  );
+
+CREATE POLICY "Users can move own buddies" ON buddy_group_members
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (
+    user_id = auth.uid()
+    AND (group_id IS NULL OR group_id IN (SELECT id FROM buddy_groups WHERE user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can remove own buddy placements" ON buddy_group_members
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Sets the full manual order of one group (NULL for "Buddies") in one statement,
+-- moving any listed buddy in from wherever they were
+CREATE OR REPLACE FUNCTION set_buddy_group_order(target_group_id UUID, buddy_ids UUID[])
+RETURNS VOID AS $$
+  INSERT INTO buddy_group_members (user_id, buddy_id, group_id, position)
+  SELECT auth.uid(), b.buddy_id, target_group_id, (b.ord - 1)::INTEGER
+  FROM unnest(buddy_ids) WITH ORDINALITY AS b(buddy_id, ord)
+  ON CONFLICT (user_id, buddy_id) DO UPDATE
+    SET group_id = EXCLUDED.group_id, position = EXCLUDED.position;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Reorders the user's groups to match group_ids
+CREATE OR REPLACE FUNCTION set_buddy_group_positions(group_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE buddy_groups g
+  SET position = (o.ord - 1)::INTEGER
+  FROM unnest(group_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE g.id = o.id AND g.user_id = auth.uid();
+$$ LANGUAGE sql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION set_buddy_group_order(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_buddy_group_positions(UUID[]) TO authenticated;
+
+-- How the buddy list sorts buddies within each group
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS buddy_list_sort TEXT NOT NULL DEFAULT 'manual'
+  CHECK (buddy_list_sort IN ('manual', 'name', 'status'));
+
+-- Keeps the layout in sync across the user's machines
+ALTER PUBLICATION supabase_realtime ADD TABLE buddy_groups;
+ALTER PUBLICATION supabase_realtime ADD TABLE buddy_group_members;
@@ -0,0 +1,87 @@
+-- Buddy Pounce: act when a buddy signs on, comes back from away or stops being idle
+-- Run this in your Supabase SQL Editor (after idle-time.sql)
+
+CREATE TABLE buddy_pounces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  buddy_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  -- When to pounce
+  on_sign_on BOOLEAN NOT NULL DEFAULT TRUE,
+  on_return_from_away BOOLEAN NOT NULL DEFAULT FALSE,
+  on_return_from_idle BOOLEAN NOT NULL DEFAULT FALSE,
+  -- What to do
+  open_chat BOOLEAN NOT NULL DEFAULT FALSE,
+  message TEXT, -- Sent to the buddy when set
+  play_sound BOOLEAN NOT NULL DEFAULT TRUE,
+  notify BOOLEAN NOT NULL DEFAULT TRUE,
+  -- One-shot pounces are deleted when they fire
+  recurring BOOLEAN NOT NULL DEFAULT FALSE,
+  last_fired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (user_id <> buddy_id),
+  CHECK (on_sign_on OR on_return_from_away OR on_return_from_idle),
+  CHECK (open_chat OR message IS NOT NULL OR play_sound OR notify),
+  CHECK (message IS NULL OR char_length(message) BETWEEN 1 AND 1000)
+);
+
+CREATE INDEX idx_buddy_pounces_user_id ON buddy_pounces(user_id);
+
+ALTER TABLE buddy_pounces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pounces" ON buddy_pounces
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Only on accepted buddies
+CREATE POLICY "Users can create pounces on buddies" ON buddy_pounces
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM friends
+      WHERE status = 'accepted'
+        AND ((user_id = auth.uid() AND friend_id = buddy_id) OR (friend_id = auth.uid() AND user_id = buddy_id))
+    )
+  );
+
+-- Same buddy check as creating one, so a pounce can't be re-pointed at anyone
+CREATE POLICY "Users can update own pounces" ON buddy_pounces
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM friends
+      WHERE status = 'accepted'
+        AND ((user_id = auth.uid() AND friend_id = buddy_pounces.buddy_id) OR (friend_id = auth.uid() AND user_id = buddy_pounces.buddy_id))
+    )
+  );
+
+CREATE POLICY "Users can delete own pounces" ON buddy_pounces
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Every signed-on machine sees the same buddy event, so the one that claims the
+-- pounce first runs it. One-shot pounces are used up; recurring ones won't fire
+-- again for the same event. Returns whether the caller should run it.
+CREATE OR REPLACE FUNCTION claim_buddy_pounce(pounce_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  claimed_id UUID;
+BEGIN
+  DELETE FROM buddy_pounces
+  WHERE id = pounce_id AND user_id = auth.uid() AND NOT recurring
+  RETURNING id INTO claimed_id;
+
+  IF claimed_id IS NULL THEN
+    UPDATE buddy_pounces SET last_fired_at = NOW()
+    WHERE id = pounce_id AND user_id = auth.uid() AND recurring
+      AND (last_fired_at IS NULL OR last_fired_at < NOW() - INTERVAL '30 seconds')
+    RETURNING id INTO claimed_id;
+  END IF;
+
+  RETURN claimed_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_buddy_pounce(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_buddy_pounce(UUID) TO authenticated;
+
+-- Keeps the list in sync across the user's machines
+ALTER PUBLICATION supabase_realtime ADD TABLE buddy_pounces;
@@ -0,0 +1,65 @@
+-- Atomic "find or create DM" for direct messages and self-chats
+-- Run this in your Supabase SQL Editor
+
+-- Canonical pair key for 1:1 conversations: "<lower uuid>:<higher uuid>".
+-- Self-chats use the same id on both sides. Group chats leave it NULL.
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS dm_key TEXT;
+
+-- Backfill existing DMs, keeping the oldest conversation for each pair
+UPDATE conversations c
+SET dm_key = keyed.dm_key
+FROM (
+  SELECT DISTINCT ON (pairs.dm_key) pairs.conversation_id, pairs.dm_key
+  FROM (
+    SELECT
+      cp.conversation_id,
+      MIN(cp.user_id::text) || ':' || MAX(cp.user_id::text) AS dm_key,
+      MIN(conv.created_at) AS created_at
+    FROM conversation_participants cp
+    JOIN conversations conv ON conv.id = cp.conversation_id
+    WHERE conv.is_group = FALSE
+    GROUP BY cp.conversation_id
+    HAVING COUNT(DISTINCT cp.user_id) <= 2
+  ) pairs
+  ORDER BY pairs.dm_key, pairs.created_at ASC
+) keyed
+WHERE c.id = keyed.conversation_id AND c.dm_key IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_dm_key ON conversations(dm_key);
+
+-- Returns the DM conversation between the caller and other_user_id, creating it
+-- (and its participant rows) if needed. Pass the caller's own id for a self-chat.
+CREATE OR REPLACE FUNCTION find_or_create_dm(other_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  pair_key TEXT;
+  convo_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  pair_key := LEAST(caller_id, other_user_id)::text || ':' || GREATEST(caller_id, other_user_id)::text;
+
+  -- The unique dm_key makes concurrent calls converge on a single row
+  INSERT INTO conversations (is_group, dm_key)
+  VALUES (FALSE, pair_key)
+  ON CONFLICT (dm_key) DO NOTHING
+  RETURNING id INTO convo_id;
+
+  IF convo_id IS NULL THEN
+    SELECT id INTO convo_id FROM conversations WHERE dm_key = pair_key;
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT DISTINCT convo_id, participant_id
+  FROM unnest(ARRAY[caller_id, other_user_id]) AS participant_id
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN convo_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_or_create_dm(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION find_or_create_dm(UUID) TO authenticated;
@@ -15,6 +15,8 @@ const config: ForgeConfig = {
     executableName: 'buddylist',
     appBundleId: 'com.buddylist.app',
     appCategoryType: 'public.app-category.social-networking',
+    // buddylist:// links; Windows registers the scheme at runtime instead
+    protocols: [{ name: 'BuddyList', schemes: ['buddylist'] }],
   },
   rebuildConfig: {},
   makers: [
@@ -33,12 +35,14 @@ const config: ForgeConfig = {
         productName: 'BuddyList',
         genericName: 'Chat Application',
         categories: ['Network', 'Chat'],
+        mimeType: ['x-scheme-handler/buddylist'],
       },
     }),
     new MakerRpm({
       options: {
         name: 'buddylist',
         productName: 'BuddyList',
+        mimeType: ['x-scheme-handler/buddylist'],
       },
     }),
   ],
@@ -0,0 +1,23 @@
+-- Idle time for the buddy list ("(idle 23m)")
+-- Run this in your Supabase SQL Editor
+
+-- When the user's computer went idle; NULL while they're active.
+-- Independent of status, so a buddy can be both away and idle.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS idle_since TIMESTAMPTZ;
+
+-- Idle time means nothing once someone signs off, and would give away someone
+-- who is invisible (stored as 'offline', but this can run before that trigger
+-- rewrites 'invisible'). Idle writes to an offline row are dropped the same way.
+CREATE OR REPLACE FUNCTION clear_idle_on_signoff()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('offline', 'invisible') THEN
+    NEW.idle_since := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_profile_signoff_clear_idle
+  BEFORE UPDATE OF status, idle_since ON profiles
+  FOR EACH ROW EXECUTE FUNCTION clear_idle_on_signoff();
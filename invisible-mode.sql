@@ -0,0 +1,107 @@
+-- Real invisible mode
+-- Run this in your Supabase SQL Editor (after presence-heartbeat.sql)
+
+-- Clients may set status to 'invisible'. The trigger below never stores it in
+-- profiles, so everyone else (including over realtime) just sees 'offline'.
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_status_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_status_check
+  CHECK (status IN ('online', 'away', 'invisible', 'offline'));
+
+-- Whether a user is currently signed on invisibly. Rows are only ever
+-- flipped, never deleted, so realtime delivers changes through RLS.
+CREATE TABLE invisible_presence (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  active BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Buddies who see the user as online while they're invisible
+CREATE TABLE presence_reveals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  viewer_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, viewer_id),
+  CHECK (user_id <> viewer_id)
+);
+
+CREATE INDEX idx_presence_reveals_viewer_id ON presence_reveals(viewer_id);
+
+ALTER TABLE invisible_presence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE presence_reveals ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Users can view own or revealed invisible presence" ON invisible_presence
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR user_id IN (SELECT user_id FROM presence_reveals WHERE viewer_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view reveals they made or received" ON presence_reveals
+  FOR SELECT USING (user_id = auth.uid() OR viewer_id = auth.uid());
+
+CREATE POLICY "Users can reveal themselves" ON presence_reveals
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove own reveals" ON presence_reveals
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Any explicit status write ends invisibility unless it asks for it again
+CREATE OR REPLACE FUNCTION handle_invisible_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'invisible' THEN
+    INSERT INTO invisible_presence (user_id, active, updated_at)
+    VALUES (NEW.id, TRUE, NOW())
+    ON CONFLICT (user_id) DO UPDATE SET active = TRUE, updated_at = NOW();
+    NEW.status := 'offline';
+  ELSE
+    UPDATE invisible_presence SET active = FALSE, updated_at = NOW()
+    WHERE user_id = NEW.id AND active;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_profile_status_changed
+  BEFORE INSERT OR UPDATE OF status ON profiles
+  FOR EACH ROW EXECUTE FUNCTION handle_invisible_status();
+
+-- Invisible users are 'offline' in profiles, so expire them separately.
+-- Their heartbeat restores 'invisible', which the trigger turns back on.
+CREATE OR REPLACE FUNCTION expire_stale_presence()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  WITH stale_invisible AS (
+    UPDATE invisible_presence ip
+    SET active = FALSE, updated_at = NOW()
+    FROM presence_heartbeats h
+    WHERE h.user_id = ip.user_id
+      AND ip.active
+      AND h.last_seen_at < NOW() - make_interval(secs => presence_timeout_seconds())
+    RETURNING ip.user_id
+  )
+  UPDATE presence_heartbeats SET expired_status = 'invisible'
+  WHERE user_id IN (SELECT user_id FROM stale_invisible);
+
+  WITH stale AS (
+    UPDATE presence_heartbeats h
+    SET expired_status = p.status
+    FROM profiles p
+    WHERE p.id = h.user_id
+      AND p.status <> 'offline'
+      AND h.last_seen_at < NOW() - make_interval(secs => presence_timeout_seconds())
+    RETURNING h.user_id
+  )
+  UPDATE profiles SET status = 'offline'
+  WHERE id IN (SELECT user_id FROM stale);
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE invisible_presence;
+ALTER PUBLICATION supabase_realtime ADD TABLE presence_reveals;
@@ -0,0 +1,115 @@
+-- Import legacy AIM, Pidgin and Trillian chat logs
+-- Run this in your Supabase SQL Editor
+
+-- Imported rows keep the time they were originally sent as created_at.
+-- Everyone but the importer is stored under the importer with their old screen name.
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS imported_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS external_sender_name TEXT;
+
+-- Importing the same log twice shouldn't duplicate it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_import_dedupe ON messages (
+  conversation_id, sender_id, COALESCE(external_sender_name, ''), created_at, md5(content)
+) WHERE imported_at IS NOT NULL;
+
+-- Message insert rules (see message-replies.sql), plus: only import_messages
+-- below may write imported rows
+CREATE OR REPLACE FUNCTION message_insert_allowed(m messages)
+RETURNS BOOLEAN AS $$
+  SELECT
+    m.conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+    AND m.sender_id = auth.uid()
+    -- Replies must quote a message from the same conversation
+    AND (
+      m.reply_to_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM messages quoted
+        WHERE quoted.id = m.reply_to_id AND quoted.conversation_id = m.conversation_id
+      )
+    )
+    -- Attachments must come from the conversation's own folder
+    AND (
+      m.attachment_path IS NULL
+      OR split_part(m.attachment_path, '/', 1) = m.conversation_id::text
+    )
+    -- Only import_messages may write imported rows
+    AND m.imported_at IS NULL
+    AND m.external_sender_name IS NULL;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Imported rows are the one place a client-supplied created_at is kept
+CREATE OR REPLACE FUNCTION set_message_created_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.imported_at IS NULL THEN
+    NEW.created_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Inserts a batch of imported messages into a conversation the caller belongs to.
+-- Each entry is { sender_id, external_sender_name, content, created_at }; sender_id
+-- is the caller's own id, or null for anyone else (named by external_sender_name).
+-- Returns how many rows were actually added.
+CREATE OR REPLACE FUNCTION import_messages(target_conversation_id UUID, entries JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = target_conversation_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  IF jsonb_array_length(entries) > 1000 THEN
+    RAISE EXCEPTION 'Import at most 1000 messages per call';
+  END IF;
+
+  -- A log is only the importer's word, so it can't speak for anyone else's account
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(entries) AS e(sender_id UUID)
+    WHERE e.sender_id IS NOT NULL AND e.sender_id <> auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Imported messages can only be attributed to yourself';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, external_sender_name, content, created_at, imported_at)
+  SELECT
+    target_conversation_id,
+    auth.uid(),
+    CASE WHEN e.sender_id IS NULL THEN COALESCE(NULLIF(btrim(e.external_sender_name), ''), 'Unknown') END,
+    e.content,
+    e.created_at,
+    NOW()
+  FROM jsonb_to_recordset(entries) AS e(sender_id UUID, external_sender_name TEXT, content TEXT, created_at TIMESTAMPTZ)
+  WHERE e.content IS NOT NULL AND e.content <> ''
+    AND e.created_at IS NOT NULL AND e.created_at <= NOW()
+  ON CONFLICT (conversation_id, sender_id, COALESCE(external_sender_name, ''), created_at, md5(content))
+    WHERE imported_at IS NOT NULL
+    DO NOTHING;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION import_messages(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION import_messages(UUID, JSONB) TO authenticated;
+
+-- Import metadata is fixed once written
+CREATE OR REPLACE FUNCTION prevent_import_fields_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.imported_at IS DISTINCT FROM OLD.imported_at
+    OR NEW.external_sender_name IS DISTINCT FROM OLD.external_sender_name THEN
+    RAISE EXCEPTION 'Import details of a message cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_message_import_fields_updated
+  BEFORE UPDATE OF imported_at, external_sender_name ON messages
+  FOR EACH ROW EXECUTE FUNCTION prevent_import_fields_change();
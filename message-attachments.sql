@@ -0,0 +1,176 @@
+-- File and image transfer
+-- Run this in your Supabase SQL Editor
+
+-- Attachments live in a private bucket at <conversation_id>/<uuid>/<file name>.
+-- Keep the size and type limits in sync with src/utils/attachments.ts.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  FALSE,
+  10485760,
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain', 'application/zip',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Participants can view conversation attachments" ON storage.objects
+  FOR SELECT TO authenticated USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] IN (
+      SELECT conversation_id::text FROM conversation_participants WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Participants can upload conversation attachments" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] IN (
+      SELECT conversation_id::text FROM conversation_participants WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own attachments" ON storage.objects
+  FOR DELETE TO authenticated USING (
+    bucket_id = 'attachments' AND owner_id = auth.uid()::text
+  );
+
+-- One attachment per message; content stays empty for a bare file
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_path TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_name TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_size INTEGER;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachment_type TEXT;
+
+ALTER TABLE messages ADD CONSTRAINT messages_attachment_check CHECK (
+  attachment_path IS NULL
+  OR (
+    attachment_name IS NOT NULL
+    AND attachment_size BETWEEN 0 AND 10485760
+    AND attachment_type IS NOT NULL
+  )
+);
+
+-- Message insert rules (see message-replies.sql), plus the attachment folder
+CREATE OR REPLACE FUNCTION message_insert_allowed(m messages)
+RETURNS BOOLEAN AS $$
+  SELECT
+    m.conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+    AND m.sender_id = auth.uid()
+    -- Replies must quote a message from the same conversation
+    AND (
+      m.reply_to_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM messages quoted
+        WHERE quoted.id = m.reply_to_id AND quoted.conversation_id = m.conversation_id
+      )
+    )
+    -- Attachments must come from the conversation's own folder
+    AND (
+      m.attachment_path IS NULL
+      OR split_part(m.attachment_path, '/', 1) = m.conversation_id::text
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Same rules as before, plus: attachments can't be swapped after sending,
+-- and unsending a message drops its attachment reference.
+CREATE OR REPLACE FUNCTION handle_message_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.conversation_id <> OLD.conversation_id
+    OR NEW.sender_id <> OLD.sender_id
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Only message content can be changed';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Unsent messages cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    IF OLD.created_at < NOW() - make_interval(secs => message_unsend_window_seconds()) THEN
+      RAISE EXCEPTION 'Messages can only be unsent within % minutes', message_unsend_window_seconds() / 60;
+    END IF;
+    NEW.deleted_at := NOW();
+    NEW.updated_at := OLD.updated_at;
+    NEW.content := '';
+    NEW.attachment_path := NULL;
+    NEW.attachment_name := NULL;
+    NEW.attachment_size := NULL;
+    NEW.attachment_type := NULL;
+    DELETE FROM message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.attachment_path IS DISTINCT FROM OLD.attachment_path
+    OR NEW.attachment_name IS DISTINCT FROM OLD.attachment_name
+    OR NEW.attachment_size IS DISTINCT FROM OLD.attachment_size
+    OR NEW.attachment_type IS DISTINCT FROM OLD.attachment_type THEN
+    RAISE EXCEPTION 'Attachments cannot be changed after sending';
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+    NEW.updated_at := NOW();
+  ELSE
+    -- Only a real edit marks a message as edited
+    NEW.updated_at := OLD.updated_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Previews need the file name when a message is just an attachment.
+-- The return type changes, so the function has to be dropped first.
+DROP FUNCTION IF EXISTS get_conversation_summaries();
+
+CREATE FUNCTION get_conversation_summaries()
+RETURNS TABLE (
+  conversation_id UUID,
+  last_read_at TIMESTAMPTZ,
+  unread_count BIGINT,
+  last_message_id UUID,
+  last_message_sender_id UUID,
+  last_message_content TEXT,
+  last_message_attachment_name TEXT,
+  last_message_created_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    cp.conversation_id,
+    cp.last_read_at,
+    (
+      SELECT COUNT(*)
+      FROM messages m
+      WHERE m.conversation_id = cp.conversation_id
+        AND m.sender_id <> cp.user_id
+        AND m.created_at > cp.last_read_at
+        AND m.deleted_at IS NULL
+    ) AS unread_count,
+    last_msg.id,
+    last_msg.sender_id,
+    last_msg.content,
+    last_msg.attachment_name,
+    last_msg.created_at
+  FROM conversation_participants cp
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.sender_id, m.content, m.attachment_name, m.created_at
+    FROM messages m
+    WHERE m.conversation_id = cp.conversation_id
+      AND m.deleted_at IS NULL
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_msg ON TRUE
+  WHERE cp.user_id = auth.uid();
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_conversation_summaries() TO authenticated;
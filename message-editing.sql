@@ -0,0 +1,134 @@
+-- Message editing and unsending
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- How long after sending a message can still be unsent.
+-- Redefine this function to change the window; clients read it too.
+CREATE OR REPLACE FUNCTION message_unsend_window_seconds()
+RETURNS INTEGER AS $$
+  SELECT 15 * 60;
+$$ LANGUAGE sql IMMUTABLE;
+
+GRANT EXECUTE ON FUNCTION message_unsend_window_seconds() TO authenticated;
+
+-- Previous versions of edited messages
+CREATE TABLE message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_edits_message_id ON message_edits(message_id);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Edit history is written by the trigger below, never directly by clients
+CREATE POLICY "Users can view edit history in their conversations" ON message_edits
+  FOR SELECT USING (
+    message_id IN (
+      SELECT id FROM messages
+      WHERE conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+    )
+  );
+
+-- The unsend window and edit history go by created_at, so the server sets it
+-- rather than trusting the time a client sends
+CREATE OR REPLACE FUNCTION set_message_created_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_message_inserted_set_created_at
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION set_message_created_at();
+
+CREATE POLICY "Users can edit or unsend own messages" ON messages
+  FOR UPDATE USING (sender_id = auth.uid())
+  WITH CHECK (sender_id = auth.uid());
+
+-- Only content and deleted_at may change. Edits are archived to message_edits;
+-- unsending clears the content and its history, and is limited to the unsend window.
+CREATE OR REPLACE FUNCTION handle_message_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.conversation_id <> OLD.conversation_id
+    OR NEW.sender_id <> OLD.sender_id
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Only message content can be changed';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Unsent messages cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    IF OLD.created_at < NOW() - make_interval(secs => message_unsend_window_seconds()) THEN
+      RAISE EXCEPTION 'Messages can only be unsent within % minutes', message_unsend_window_seconds() / 60;
+    END IF;
+    NEW.deleted_at := NOW();
+    NEW.updated_at := OLD.updated_at;
+    NEW.content := '';
+    DELETE FROM message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+    NEW.updated_at := NOW();
+  ELSE
+    -- Only a real edit marks a message as edited
+    NEW.updated_at := OLD.updated_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_message_updated
+  BEFORE UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION handle_message_update();
+
+-- Leave unsent messages out of unread counts and previews
+CREATE OR REPLACE FUNCTION get_conversation_summaries()
+RETURNS TABLE (
+  conversation_id UUID,
+  last_read_at TIMESTAMPTZ,
+  unread_count BIGINT,
+  last_message_id UUID,
+  last_message_sender_id UUID,
+  last_message_content TEXT,
+  last_message_created_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    cp.conversation_id,
+    cp.last_read_at,
+    (
+      SELECT COUNT(*)
+      FROM messages m
+      WHERE m.conversation_id = cp.conversation_id
+        AND m.sender_id <> cp.user_id
+        AND m.created_at > cp.last_read_at
+        AND m.deleted_at IS NULL
+    ) AS unread_count,
+    last_msg.id,
+    last_msg.sender_id,
+    last_msg.content,
+    last_msg.created_at
+  FROM conversation_participants cp
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.sender_id, m.content, m.created_at
+    FROM messages m
+    WHERE m.conversation_id = cp.conversation_id
+      AND m.deleted_at IS NULL
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_msg ON TRUE
+  WHERE cp.user_id = auth.uid();
+$$ LANGUAGE sql STABLE;
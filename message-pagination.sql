@@ -0,0 +1,7 @@
+-- Index for paginated message history
+-- Run this in your Supabase SQL Editor
+
+-- Chat windows load the latest page first and then page backwards using a
+-- (created_at, id) cursor, so index both keys per conversation
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at_id
+  ON messages(conversation_id, created_at DESC, id DESC);
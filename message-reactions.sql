@@ -0,0 +1,65 @@
+-- Emoji reactions on messages
+-- Run this in your Supabase SQL Editor
+
+-- Emoji that can be used as reactions: the picker's EMOJI_CATEGORIES in App.tsx.
+-- Add rows here when adding emoji there.
+CREATE TABLE reaction_emojis (
+  emoji TEXT PRIMARY KEY
+);
+
+INSERT INTO reaction_emojis (emoji) VALUES
+  -- Smileys
+  ('😀'), ('😃'), ('😄'), ('😁'), ('😅'), ('😂'), ('🤣'), ('😊'), ('😇'), ('🙂'), ('😉'), ('😌'), ('😍'), ('🥰'), ('😘'), ('😋'), ('😛'), ('😜'), ('🤪'), ('😎'), ('🤩'), ('🥳'), ('😏'), ('😒'), ('🙄'), ('😬'), ('😮'), ('🤐'), ('😯'), ('😲'), ('😳'), ('🥺'), ('😢'), ('😭'), ('😤'), ('😡'), ('🤬'), ('😈'), ('👿'), ('💀'), ('☠️'), ('💩'), ('🤡'), ('👹'), ('👺'), ('👻'), ('👽'), ('👾'), ('🤖'),
+  -- Gestures
+  ('👋'), ('🤚'), ('🖐️'), ('✋'), ('🖖'), ('👌'), ('🤌'), ('🤏'), ('✌️'), ('🤞'), ('🤟'), ('🤘'), ('🤙'), ('👈'), ('👉'), ('👆'), ('👇'), ('👍'), ('👎'), ('✊'), ('👊'), ('🤛'), ('🤜'), ('👏'), ('🙌'), ('👐'), ('🤲'), ('🙏'), ('💪'), ('🦾'),
+  -- Hearts
+  ('❤️'), ('🧡'), ('💛'), ('💚'), ('💙'), ('💜'), ('🖤'), ('🤍'), ('🤎'), ('💔'), ('❤️‍🔥'), ('❤️‍🩹'), ('💖'), ('💗'), ('💓'), ('💞'), ('💕'), ('💘'), ('💝'),
+  -- Animals
+  ('🐶'), ('🐱'), ('🐭'), ('🐹'), ('🐰'), ('🦊'), ('🐻'), ('🐼'), ('🐨'), ('🐯'), ('🦁'), ('🐮'), ('🐷'), ('🐸'), ('🐵'), ('🐔'), ('🐧'), ('🐦'), ('🐤'), ('🦄'), ('🐴'), ('🦋'), ('🐛'), ('🐝'), ('🐞'),
+  -- Food
+  ('🍎'), ('🍐'), ('🍊'), ('🍋'), ('🍌'), ('🍉'), ('🍇'), ('🍓'), ('🫐'), ('🍒'), ('🍑'), ('🥭'), ('🍍'), ('🥥'), ('🥝'), ('🍔'), ('🍟'), ('🍕'), ('🌭'), ('🥪'), ('🌮'), ('🍿'), ('🍩'), ('🍪'), ('🎂'), ('🍰'), ('☕'), ('🍵'), ('🧃'), ('🍺'),
+  -- Activities
+  ('⚽'), ('🏀'), ('🏈'), ('⚾'), ('🥎'), ('🎾'), ('🏐'), ('🏉'), ('🥏'), ('🎱'), ('🎮'), ('🎲'), ('🎭'), ('🎨'), ('🎬'), ('🎤'), ('🎧'), ('🎸'), ('🎹'), ('🥁'), ('🎯'), ('🎳'), ('🎰'), ('🎪'),
+  -- Objects
+  ('💡'), ('🔦'), ('🏮'), ('📱'), ('💻'), ('⌨️'), ('🖥️'), ('📷'), ('📹'), ('🎥'), ('📞'), ('☎️'), ('📺'), ('📻'), ('⏰'), ('⌚'), ('💰'), ('💎'), ('🔑'), ('🗝️'), ('🔒'), ('🔓'), ('💣'), ('🎁'),
+  -- Symbols
+  ('💯'), ('✨'), ('💥'), ('💫'), ('💦'), ('💨'), ('🔥'), ('⭐'), ('🌟'), ('✅'), ('❌'), ('❓'), ('❗'), ('💤'), ('💢'), ('💬'), ('👁️‍🗨️'), ('🗯️'), ('💭'), ('🕳️'), ('🚫'), ('⛔'), ('📛'), ('♻️'), ('✳️');
+
+ALTER TABLE reaction_emojis ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reaction emojis" ON reaction_emojis
+  FOR SELECT USING (true);
+
+CREATE TABLE message_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  -- Copied from the message so realtime can filter per conversation
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT REFERENCES reaction_emojis(emoji) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_message_id ON message_reactions(message_id);
+CREATE INDEX idx_message_reactions_conversation_id ON message_reactions(conversation_id);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions in their conversations" ON message_reactions
+  FOR SELECT USING (
+    conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can react in their conversations" ON message_reactions
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+    AND conversation_id = (SELECT conversation_id FROM messages WHERE id = message_id)
+  );
+
+CREATE POLICY "Users can remove own reactions" ON message_reactions
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Enable realtime for reactions
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
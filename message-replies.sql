@@ -0,0 +1,44 @@
+-- Quoted replies to a specific message
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to_id ON messages(reply_to_id);
+
+-- Every rule a new message must pass. The policy below only calls this and is
+-- never redefined; later migrations add rules by replacing this function, so
+-- the current rules are always the latest definition of it.
+CREATE OR REPLACE FUNCTION message_insert_allowed(m messages)
+RETURNS BOOLEAN AS $$
+  SELECT
+    m.conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+    AND m.sender_id = auth.uid()
+    -- Replies must quote a message from the same conversation
+    AND (
+      m.reply_to_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM messages quoted
+        WHERE quoted.id = m.reply_to_id AND quoted.conversation_id = m.conversation_id
+      )
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+DROP POLICY "Users can send messages to their conversations" ON messages;
+
+CREATE POLICY "Users can send messages to their conversations" ON messages
+  FOR INSERT WITH CHECK (message_insert_allowed(messages));
+
+-- A reply can't be re-pointed at another message after sending
+CREATE OR REPLACE FUNCTION prevent_reply_target_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id AND NEW.reply_to_id IS NOT NULL THEN
+    RAISE EXCEPTION 'The quoted message of a reply cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_message_reply_target_updated
+  BEFORE UPDATE OF reply_to_id ON messages
+  FOR EACH ROW EXECUTE FUNCTION prevent_reply_target_change();
@@ -0,0 +1,51 @@
+-- Full-text search across conversation history
+-- Run this in your Supabase SQL Editor
+
+-- Message content is stored as sanitized HTML; index only the text a reader sees
+CREATE OR REPLACE FUNCTION message_plain_text(html TEXT)
+RETURNS TEXT AS $$
+  SELECT btrim(regexp_replace(
+    replace(replace(replace(replace(replace(replace(
+      regexp_replace(html, '<[^>]*>', ' ', 'g'),
+      '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''), '&amp;', '&'),
+    '\s+', ' ', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', message_plain_text(content))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON messages USING GIN (search_vector);
+
+-- Runs as the caller, so the messages SELECT policy limits hits to the
+-- caller's own conversations. Snippets mark matched words with <b></b>.
+CREATE OR REPLACE FUNCTION search_messages(search_query TEXT, max_results INTEGER DEFAULT 50)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  sender_id UUID,
+  created_at TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL
+) AS $$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.created_at,
+    ts_headline(
+      'english',
+      message_plain_text(m.content),
+      q.query,
+      'StartSel=<b>, StopSel=</b>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    ts_rank(m.search_vector, q.query)
+  FROM messages m,
+    LATERAL (SELECT websearch_to_tsquery('english', search_query) AS query) q
+  WHERE m.search_vector @@ q.query
+    AND m.deleted_at IS NULL
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(max_results, 1), 200);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_messages(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,11 @@
+-- Per-conversation notification mute
+-- Run this in your Supabase SQL Editor (after unread-messages.sql)
+
+-- Muted conversations still count as unread and still open their window;
+-- they just don't raise desktop notifications. Users already update their
+-- own participant row through "Users can update own participation".
+ALTER TABLE conversation_participants
+  ADD COLUMN IF NOT EXISTS notifications_muted BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- That policy only applies to columns granted for update
+GRANT UPDATE (notifications_muted) ON conversation_participants TO authenticated;
@@ -0,0 +1,78 @@
+-- Heartbeat-based presence so crashed or disconnected clients go offline
+-- Run this in your Supabase SQL Editor
+-- Requires the pg_cron extension (Database > Extensions in the Supabase dashboard)
+
+-- Seconds without a heartbeat before a signed-on user is considered gone.
+-- Clients send one every 30 seconds.
+CREATE OR REPLACE FUNCTION presence_timeout_seconds()
+RETURNS INTEGER AS $$
+  SELECT 90;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Kept out of profiles so heartbeats don't broadcast a profile UPDATE to everyone
+CREATE TABLE presence_heartbeats (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Status the user had when they were expired, restored on their next heartbeat
+  expired_status TEXT
+);
+
+ALTER TABLE presence_heartbeats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own heartbeat" ON presence_heartbeats
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Called by clients every 30 seconds. If the server had signed the user off
+-- (sleep, lost network), their previous status comes back. Returns the current status.
+CREATE OR REPLACE FUNCTION heartbeat()
+RETURNS TEXT AS $$
+DECLARE
+  restored_status TEXT;
+  current_status TEXT;
+BEGIN
+  INSERT INTO presence_heartbeats (user_id, last_seen_at)
+  VALUES (auth.uid(), NOW())
+  ON CONFLICT (user_id) DO UPDATE SET last_seen_at = NOW()
+  RETURNING expired_status INTO restored_status;
+
+  IF restored_status IS NOT NULL THEN
+    UPDATE presence_heartbeats SET expired_status = NULL WHERE user_id = auth.uid();
+    UPDATE profiles SET status = restored_status WHERE id = auth.uid() AND status = 'offline';
+  END IF;
+
+  SELECT status INTO current_status FROM profiles WHERE id = auth.uid();
+  RETURN current_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION heartbeat() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION heartbeat() TO authenticated;
+
+-- Signs off everyone whose heartbeat has lapsed. The profiles UPDATE goes out
+-- over realtime like any other sign-off, so buddies hear the door close.
+-- Users who have never sent a heartbeat (older clients) are left alone.
+CREATE OR REPLACE FUNCTION expire_stale_presence()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  WITH stale AS (
+    UPDATE presence_heartbeats h
+    SET expired_status = p.status
+    FROM profiles p
+    WHERE p.id = h.user_id
+      AND p.status <> 'offline'
+      AND h.last_seen_at < NOW() - make_interval(secs => presence_timeout_seconds())
+    RETURNING h.user_id
+  )
+  UPDATE profiles SET status = 'offline'
+  WHERE id IN (SELECT user_id FROM stale);
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_presence() FROM PUBLIC;
+
+SELECT cron.schedule('expire-stale-presence', '* * * * *', 'SELECT expire_stale_presence()');
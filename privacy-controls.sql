@@ -0,0 +1,276 @@
+-- Block list and privacy modes (who can message me)
+-- Run this in your Supabase SQL Editor (after log-import.sql)
+
+-- Modes, as in AIM:
+--   allow_all     anyone can reach me
+--   buddies_only  only accepted buddies
+--   allow_list    only people on my allow list
+--   deny_list     anyone except people on my deny (block) list
+-- Outside allow_all the deny list always wins, so blocking a buddy works in every other mode.
+-- Blocks live here rather than in friends.status so non-buddies can be blocked too.
+CREATE TABLE privacy_settings (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  mode TEXT NOT NULL DEFAULT 'allow_all'
+    CHECK (mode IN ('allow_all', 'buddies_only', 'allow_list', 'deny_list')),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE privacy_list (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  target_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  list TEXT NOT NULL CHECK (list IN ('allow', 'deny')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, target_id, list),
+  CHECK (user_id <> target_id)
+);
+
+ALTER TABLE privacy_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE privacy_list ENABLE ROW LEVEL SECURITY;
+
+-- Nobody else can read who you block or allow
+CREATE POLICY "Users can view own privacy settings" ON privacy_settings
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own privacy settings" ON privacy_settings
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own privacy settings" ON privacy_settings
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view own privacy list" ON privacy_list
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add to own privacy list" ON privacy_list
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove from own privacy list" ON privacy_list
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Whether recipient_id's privacy settings let sender_id reach them. Only answers
+-- for the caller's own pairs so it can't be used to probe other people's lists.
+CREATE OR REPLACE FUNCTION can_contact(sender_id UUID, recipient_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  recipient_mode TEXT;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM sender_id AND auth.uid() IS DISTINCT FROM recipient_id THEN
+    RETURN FALSE;
+  END IF;
+  IF sender_id = recipient_id THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT mode INTO recipient_mode FROM privacy_settings WHERE user_id = recipient_id;
+  recipient_mode := COALESCE(recipient_mode, 'allow_all');
+  IF recipient_mode = 'allow_all' THEN
+    RETURN TRUE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM privacy_list
+    WHERE user_id = recipient_id AND target_id = sender_id AND list = 'deny'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  CASE recipient_mode
+    WHEN 'deny_list' THEN
+      RETURN TRUE;
+    WHEN 'allow_list' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM privacy_list
+        WHERE user_id = recipient_id AND target_id = sender_id AND list = 'allow'
+      );
+    WHEN 'buddies_only' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM friends
+        WHERE status = 'accepted'
+          AND ((user_id = sender_id AND friend_id = recipient_id) OR (user_id = recipient_id AND friend_id = sender_id))
+      );
+    ELSE
+      RETURN FALSE;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION can_contact(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION can_contact(UUID, UUID) TO authenticated;
+
+-- Friend requests
+DROP POLICY "Users can send friend requests" ON friends;
+
+-- buddies_only trusts 'accepted', so requests always start out pending
+CREATE POLICY "Users can send friend requests" ON friends
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND can_contact(auth.uid(), friend_id)
+  );
+
+-- Only the person a request was sent to can accept it
+DROP POLICY "Users can update friend status" ON friends;
+
+CREATE POLICY "Users can update friend status" ON friends
+  FOR UPDATE USING (auth.uid() = user_id OR auth.uid() = friend_id)
+  WITH CHECK (
+    (auth.uid() = user_id OR auth.uid() = friend_id)
+    AND (status <> 'accepted' OR auth.uid() = friend_id)
+  );
+
+-- A request stays between the two people it was sent between; otherwise a
+-- pending request could be rewritten into someone else accepting it
+CREATE OR REPLACE FUNCTION prevent_friend_pair_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.friend_id IS DISTINCT FROM OLD.friend_id THEN
+    RAISE EXCEPTION 'The people in a buddy request cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_friend_pair_updated
+  BEFORE UPDATE OF user_id, friend_id ON friends
+  FOR EACH ROW EXECUTE FUNCTION prevent_friend_pair_change();
+
+-- Who started a conversation. Existing rows stay NULL, so nobody can join
+-- them on their own; there's no UPDATE policy, so it can't be changed later.
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS created_by UUID
+  REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+DROP POLICY "Users can create conversations" ON conversations;
+
+CREATE POLICY "Users can create conversations" ON conversations
+  FOR INSERT WITH CHECK (auth.uid() IS NOT NULL AND created_by = auth.uid());
+
+-- Lets the creator see it before they've added themselves as a participant
+CREATE POLICY "Users can view conversations they created" ON conversations
+  FOR SELECT USING (created_by = auth.uid());
+
+-- Adding people to conversations (group chats)
+DROP POLICY "Users can add participants" ON conversation_participants;
+
+CREATE POLICY "Users can add participants" ON conversation_participants
+  FOR INSERT WITH CHECK (
+    auth.uid() IS NOT NULL
+    AND (
+      -- Users can only add themselves to conversations they started, so a
+      -- blocked user can't rejoin a chat by its id
+      (
+        user_id = auth.uid()
+        AND conversation_id IN (SELECT id FROM conversations WHERE created_by = auth.uid())
+      )
+      -- Or add others to conversations they started or are in, if those people accept them
+      OR (
+        (
+          conversation_id IN (SELECT id FROM conversations WHERE created_by = auth.uid())
+          OR conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+        )
+        AND can_contact(auth.uid(), user_id)
+      )
+    )
+  );
+
+-- Starting a DM. An existing conversation is still returned so its history can
+-- be read; the messages policy below stops anything new being sent.
+CREATE OR REPLACE FUNCTION find_or_create_dm(other_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  pair_key TEXT;
+  convo_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  pair_key := LEAST(caller_id, other_user_id)::text || ':' || GREATEST(caller_id, other_user_id)::text;
+
+  SELECT id INTO convo_id FROM conversations WHERE dm_key = pair_key;
+  IF convo_id IS NOT NULL THEN
+    RETURN convo_id;
+  END IF;
+
+  IF NOT can_contact(caller_id, other_user_id) THEN
+    RAISE EXCEPTION 'This user is not accepting messages from you' USING ERRCODE = '42501';
+  END IF;
+
+  -- The unique dm_key makes concurrent calls converge on a single row
+  INSERT INTO conversations (is_group, dm_key)
+  VALUES (FALSE, pair_key)
+  ON CONFLICT (dm_key) DO NOTHING
+  RETURNING id INTO convo_id;
+
+  IF convo_id IS NULL THEN
+    SELECT id INTO convo_id FROM conversations WHERE dm_key = pair_key;
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  SELECT DISTINCT convo_id, participant_id
+  FROM unnest(ARRAY[caller_id, other_user_id]) AS participant_id
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN convo_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Message insert rules (see message-replies.sql), plus the recipient's privacy settings
+CREATE OR REPLACE FUNCTION message_insert_allowed(m messages)
+RETURNS BOOLEAN AS $$
+  SELECT
+    m.conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+    AND m.sender_id = auth.uid()
+    -- Replies must quote a message from the same conversation
+    AND (
+      m.reply_to_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM messages quoted
+        WHERE quoted.id = m.reply_to_id AND quoted.conversation_id = m.conversation_id
+      )
+    )
+    -- Attachments must come from the conversation's own folder
+    AND (
+      m.attachment_path IS NULL
+      OR split_part(m.attachment_path, '/', 1) = m.conversation_id::text
+    )
+    -- Only import_messages may write imported rows
+    AND m.imported_at IS NULL
+    AND m.external_sender_name IS NULL
+    -- Privacy applies to 1:1 conversations; in group chats it decides who
+    -- can be added, not who can talk once there
+    AND NOT EXISTS (
+      SELECT 1
+      FROM conversations c
+      JOIN conversation_participants other
+        ON other.conversation_id = c.id AND other.user_id <> auth.uid()
+      WHERE c.id = m.conversation_id
+        AND NOT c.is_group
+        AND NOT can_contact(auth.uid(), other.user_id)
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- import_messages bypasses message_insert_allowed, so imports into a 1:1 with
+-- someone who has blocked the importer are refused here instead
+CREATE OR REPLACE FUNCTION enforce_import_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM conversations c
+    JOIN conversation_participants other
+      ON other.conversation_id = c.id AND other.user_id <> NEW.sender_id
+    WHERE c.id = NEW.conversation_id
+      AND NOT c.is_group
+      AND NOT can_contact(NEW.sender_id, other.user_id)
+  ) THEN
+    RAISE EXCEPTION 'This user is not accepting messages from you' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_imported_message_privacy
+  BEFORE INSERT ON messages
+  FOR EACH ROW WHEN (NEW.imported_at IS NOT NULL)
+  EXECUTE FUNCTION enforce_import_privacy();
@@ -0,0 +1,78 @@
+-- Delivery and read receipts
+-- Run this in your Supabase SQL Editor
+
+-- Privacy setting: when off, the user neither shares nor sees receipts
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS read_receipts_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Per-participant receipt cursors: every message created at or before
+-- delivered_at reached the user's client, and at or before read_at was shown
+-- in a focused chat window
+CREATE TABLE read_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  delivered_at TIMESTAMPTZ,
+  read_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(conversation_id, user_id)
+);
+
+CREATE INDEX idx_read_receipts_conversation ON read_receipts(conversation_id);
+
+ALTER TABLE read_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Other participants' receipts are only visible while both sides have receipts on
+CREATE POLICY "Participants can view shared receipts" ON read_receipts
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR (
+      conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+      AND EXISTS (SELECT 1 FROM profiles WHERE id = read_receipts.user_id AND read_receipts_enabled)
+      AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND read_receipts_enabled)
+    )
+  );
+
+CREATE POLICY "Users can record own receipts" ON read_receipts
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own receipts" ON read_receipts
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND conversation_id IN (SELECT conversation_id FROM conversation_participants WHERE user_id = auth.uid())
+  );
+
+-- Move the caller's receipt cursors forward (never backward). Reading implies delivery.
+-- Does nothing while the caller has receipts turned off.
+CREATE OR REPLACE FUNCTION record_receipt(
+  target_conversation_id UUID,
+  delivered_up_to TIMESTAMPTZ,
+  read_up_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND read_receipts_enabled) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO read_receipts (conversation_id, user_id, delivered_at, read_at)
+  VALUES (
+    target_conversation_id,
+    auth.uid(),
+    GREATEST(delivered_up_to, read_up_to),
+    read_up_to
+  )
+  ON CONFLICT (conversation_id, user_id) DO UPDATE SET
+    delivered_at = GREATEST(read_receipts.delivered_at, EXCLUDED.delivered_at),
+    read_at = GREATEST(read_receipts.read_at, EXCLUDED.read_at),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_receipt(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+-- Enable realtime for receipts
+ALTER PUBLICATION supabase_realtime ADD TABLE read_receipts;
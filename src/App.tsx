@@ -1,7 +1,47 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { supabase, Profile } from './lib/supabase';
 import { User, RealtimeChannel } from '@supabase/supabase-js';
-import { playSignOnSound, playSignOffSound, playMessageSound } from './utils/sounds';
+import { playSignOnSound, playSignOffSound, playMessageSound, playPounceSound } from './utils/sounds';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+  removeAttachment,
+  uploadAttachment,
+  validateAttachment,
+} from './utils/attachments';
+import { formatChatLog, ChatLogEntry, ChatLogFormat } from './utils/chatLog';
+import {
+  AutoAwaySettings,
+  DEFAULT_AUTO_AWAY_MESSAGE,
+  IDLE_THRESHOLD_OPTIONS,
+  loadAutoAwaySettings,
+  saveAutoAwaySettings,
+} from './utils/autoAway';
+import {
+  LEGACY_LOG_FORMAT_LABELS,
+  LegacyLogEntry,
+  ParsedLegacyLog,
+  normalizeScreenName,
+  parseLegacyLog,
+} from './utils/logImport';
+import {
+  NotificationSettings,
+  avatarDataUrl,
+  loadNotificationSettings,
+  saveNotificationSettings,
+} from './utils/notifications';
+import {
+  ANONYMOUS_WARN_AMOUNT,
+  WARN_AMOUNT,
+  currentWarningLevel,
+  isRateLimited,
+  sendIntervalSeconds,
+} from './utils/warnings';
+import { parseDeepLink } from './utils/deepLinks';
+import { textToHtml } from './utils/html';
 
 // Convert plain-text URLs into clickable <a> tags
 function linkifyUrls(html: string): string {
@@ -70,6 +110,36 @@ function sanitizeHtml(html: string): string {
   return linkifyUrls(doc.body.innerHTML);
 }
 
+// Reduce stored message HTML to a short plain-text snippet for previews
+function htmlToSnippet(html: string, maxLength = 60): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const text = (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Snippet for a message, falling back to the file name for a bare attachment
+function messageSnippet(message: Pick<Message, 'content' | 'attachment_name'>, maxLength = 60): string {
+  const text = htmlToSnippet(message.content, maxLength);
+  return !text && message.attachment_name ? `📎 ${message.attachment_name}` : text;
+}
+
+// Short timestamp for previews: time for today, date otherwise
+function formatPreviewTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (date.toDateString() === new Date().toDateString()) {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// Idle duration the way AIM showed it: "23m", "1h 5m"
+function formatIdleTime(idleSince: string, now: number): string {
+  const minutes = Math.max(1, Math.floor((now - new Date(idleSince).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
 // Process special characters in away messages
 function processAwayMessageSpecialChars(message: string, buddyName?: string): string {
   const now = new Date();
@@ -82,7 +152,29 @@ function processAwayMessageSpecialChars(message: string, buddyName?: string): st
     .replace(/%t/g, timeStr);
 }
 
-type Status = 'online' | 'away' | 'offline';
+type Status = 'online' | 'away' | 'invisible' | 'offline';
+
+// Number of messages fetched per history page in a chat window
+const MESSAGES_PAGE_SIZE = 50;
+
+// How often the buddy list tells the server it's still signed on;
+// presence_timeout_seconds() must allow for a few missed beats
+const PRESENCE_HEARTBEAT_INTERVAL = 30 * 1000;
+
+// Fallback for message_unsend_window_seconds() if the RPC can't be reached
+const DEFAULT_UNSEND_WINDOW_SECONDS = 15 * 60;
+
+// Invisible users are stored as 'offline' so buddies can't tell the difference.
+// Our own invisible_presence row says whether that 'offline' is really invisible.
+async function withInvisibleStatus(profile: Profile): Promise<Profile> {
+  if (profile.status !== 'offline') return profile;
+  const { data } = await supabase
+    .from('invisible_presence')
+    .select('active')
+    .eq('user_id', profile.id)
+    .maybeSingle();
+  return data?.active ? { ...profile, status: 'invisible' } : profile;
+}
 
 // Avatar options for user selection
 const AVATAR_OPTIONS = ['👾', '😎', '🐱', '🤖', '🦊', '👻'];
@@ -103,6 +195,182 @@ interface Conversation {
   created_at: string;
   participants?: Profile[];
   last_message?: Message;
+  last_read_at?: string;
+  unread_count?: number;
+}
+
+// Row returned by the get_conversation_summaries RPC
+interface ConversationSummary {
+  conversation_id: string;
+  last_read_at: string;
+  unread_count: number;
+  last_message_id: string | null;
+  last_message_sender_id: string | null;
+  last_message_content: string | null;
+  last_message_attachment_name: string | null;
+  last_message_created_at: string | null;
+}
+
+// Row returned by the search_messages RPC
+interface MessageSearchHit {
+  message_id: string;
+  conversation_id: string;
+  sender_id: string;
+  created_at: string;
+  snippet: string;
+  rank: number;
+}
+
+// A buddy_pounces row: what to do when a buddy's state changes
+interface BuddyPounce {
+  id: string;
+  user_id: string;
+  buddy_id: string;
+  on_sign_on: boolean;
+  on_return_from_away: boolean;
+  on_return_from_idle: boolean;
+  open_chat: boolean;
+  message: string | null;
+  play_sound: boolean;
+  notify: boolean;
+  recurring: boolean;
+  last_fired_at: string | null;
+  created_at: string;
+}
+
+type PounceTrigger = 'sign_on' | 'return_from_away' | 'return_from_idle';
+
+const POUNCE_TRIGGER_LABELS: Record<PounceTrigger, string> = {
+  sign_on: 'signed on',
+  return_from_away: 'returned from away',
+  return_from_idle: 'is no longer idle',
+};
+
+// A buddy_aliases row: the user's private name and note for a buddy
+interface BuddyAlias {
+  buddy_id: string;
+  alias: string | null;
+  note: string | null;
+}
+
+type BuddyAliases = Map<string, BuddyAlias>;
+
+// The name to show for someone: the user's alias for them, if they set one
+function aliasedName(person: { id: string; screen_name: string } | null | undefined, aliases: BuddyAliases): string {
+  if (!person) return 'Unknown';
+  return aliases.get(person.id)?.alias || person.screen_name;
+}
+
+// The user's aliases, kept current when they're edited in another window or device.
+// scope keeps the realtime channel apart when several chats share one window.
+function useBuddyAliases(userId: string, scope = ''): [BuddyAliases, () => Promise<void>] {
+  const [aliases, setAliases] = useState<BuddyAliases>(new Map());
+
+  const loadAliases = async () => {
+    const { data, error } = await supabase
+      .from('buddy_aliases')
+      .select('buddy_id, alias, note')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Failed to load buddy aliases:', error);
+      return;
+    }
+    setAliases(new Map((data || []).map(a => [a.buddy_id, a])));
+  };
+
+  useEffect(() => {
+    loadAliases();
+
+    const channel = supabase
+      .channel(`buddy-aliases-${userId}${scope && `-${scope}`}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'buddy_aliases', filter: `user_id=eq.${userId}` }, loadAliases)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'buddy_aliases', filter: `user_id=eq.${userId}` }, loadAliases)
+      // DELETE events can't be filtered and only carry the primary key
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'buddy_aliases' }, (payload) => {
+        if ((payload.old as { user_id?: string }).user_id === userId) {
+          loadAliases();
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, scope]);
+
+  return [aliases, loadAliases];
+}
+
+// Who can message the user, as in AIM's privacy settings
+type PrivacyMode = 'allow_all' | 'buddies_only' | 'allow_list' | 'deny_list';
+
+const PRIVACY_MODE_LABELS: Record<PrivacyMode, string> = {
+  allow_all: 'Allow all users to contact me',
+  buddies_only: 'Allow only users on my Buddy List',
+  allow_list: 'Allow only the users below',
+  deny_list: 'Block the users below',
+};
+
+// A privacy_list row, with the profile of the person it names
+interface PrivacyListEntry {
+  target_id: string;
+  list: 'allow' | 'deny';
+  profile?: Profile;
+}
+
+// The database refuses messages, chats and buddy requests the recipient's
+// privacy settings don't allow with an RLS violation (insufficient_privilege)
+function isPrivacyRejection(error: { code?: string } | null): boolean {
+  return error?.code === '42501';
+}
+
+// User-defined section of the buddy list
+interface BuddyGroup {
+  id: string;
+  user_id: string;
+  name: string;
+  position: number;
+  collapsed: boolean;
+  created_at: string;
+}
+
+// Where a buddy sits in the list; a null group_id is the built-in "Buddies" group
+interface BuddyGroupMember {
+  user_id: string;
+  buddy_id: string;
+  group_id: string | null;
+  position: number;
+}
+
+type BuddySort = 'manual' | 'name' | 'status';
+
+// dataTransfer type for buddies dragged between groups
+const BUDDY_DRAG_TYPE = 'application/x-aim-buddy';
+
+// Whether IMs open in their own windows or as tabs in a shared one
+type ChatWindowMode = 'windows' | 'tabs';
+
+// dataTransfer type for chat tabs being reordered or dragged out of their window
+const CHAT_TAB_DRAG_TYPE = 'application/x-aim-chat-tab';
+
+function buddyStatusRank(profile?: Profile): number {
+  if (!profile || profile.status === 'offline') return 3;
+  if (profile.status === 'away') return 2;
+  return profile.idle_since ? 1 : 0;
+}
+
+// Buddies without a saved position keep their friend-list order after the placed ones
+function sortBuddies(friends: Friend[], sort: BuddySort, positions: Map<string, number>, aliases: BuddyAliases): Friend[] {
+  const byName = (a: Friend, b: Friend) =>
+    aliasedName(a.profile, aliases).localeCompare(aliasedName(b.profile, aliases), undefined, { sensitivity: 'base' });
+  return [...friends].sort((a, b) => {
+    if (sort === 'name') return byName(a, b);
+    if (sort === 'status') return buddyStatusRank(a.profile) - buddyStatusRank(b.profile) || byName(a, b);
+    const positionA = positions.get(a.profile?.id || '') ?? Infinity;
+    const positionB = positions.get(b.profile?.id || '') ?? Infinity;
+    return positionA === positionB ? 0 : positionA < positionB ? -1 : 1;
+  });
 }
 
 interface Message {
@@ -111,9 +379,43 @@ interface Message {
   sender_id: string;
   content: string;
   created_at: string;
+  updated_at?: string | null;
+  deleted_at?: string | null;
+  reply_to_id?: string | null;
+  attachment_path?: string | null;
+  attachment_name?: string | null;
+  attachment_size?: number | null;
+  attachment_type?: string | null;
+  imported_at?: string | null;
+  external_sender_name?: string | null;
   sender?: Profile;
 }
 
+interface MessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_at: string;
+}
+
+interface MessageReaction {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+interface ReadReceipt {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  delivered_at: string | null;
+  read_at: string | null;
+  updated_at: string;
+}
+
 interface HangoutSession {
   id: string;
   conversation_id: string;
@@ -131,10 +433,13 @@ function App() {
   const [loading, setLoading] = useState(true);
   const [view, setView] = useState<'login' | 'signup' | 'reset'>('login');
 
-  // Check if this is a chat window route
+  // Check if this is a chat window route (optionally opened at a specific message)
   const hash = window.location.hash;
-  const chatMatch = hash.match(/^#\/chat\/(.+)$/);
+  const chatMatch = hash.match(/^#\/chat\/([^/]+)(?:\/message\/(.+))?$/);
   const conversationId = chatMatch ? chatMatch[1] : null;
+  const focusMessageId = chatMatch?.[2] ?? null;
+  const isSearchWindow = hash === '#/search';
+  const isTabbedChatWindow = hash === '#/tabs';
 
   console.log('App render - hash:', hash, 'conversationId:', conversationId, 'user:', !!user, 'loading:', loading);
 
@@ -189,10 +494,14 @@ function App() {
       }
     }
 
+    if (data) {
+      data = await withInvisibleStatus(data);
+    }
+
     setProfile(data);
     setLoading(false);
 
-    // Only set online if currently offline (don't override manual away status)
+    // Only set online if currently offline (don't override manual away or invisible status)
     if (data && data.status === 'offline') {
       await supabase
         .from('profiles')
@@ -224,7 +533,15 @@ function App() {
 
   // If this is a chat window, render the ChatWindow component
   if (conversationId && user) {
-    return <ChatWindow conversationId={conversationId} user={user} profile={profile} />;
+    return <ChatWindow conversationId={conversationId} user={user} profile={profile} initialFocusMessageId={focusMessageId} />;
+  }
+
+  if (isTabbedChatWindow && user) {
+    return <TabbedChatWindow user={user} profile={profile} />;
+  }
+
+  if (isSearchWindow && user) {
+    return <SearchWindow user={user} />;
   }
 
   return (
@@ -579,17 +896,48 @@ function SignupForm({ onSwitch }: { onSwitch: () => void }) {
   );
 }
 
-// Separate Chat Window Component
-function ChatWindow({ conversationId, user, profile: initialProfile }: {
+// Separate Chat Window Component. With tab set, it's one tab of a
+// TabbedChatWindow and reports its title and unread count there instead.
+function ChatWindow({ conversationId, user, profile: initialProfile, initialFocusMessageId, tab }: {
   conversationId: string;
   user: User;
   profile: Profile | null;
+  initialFocusMessageId?: string | null;
+  tab?: {
+    active: boolean;
+    onTitleChange: (label: string, title: string) => void;
+    onUnreadChange: (count: number) => void;
+  };
 }) {
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMessages, setLoadingMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [receipts, setReceipts] = useState<ReadReceipt[]>([]);
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  // Quoted messages that aren't in the loaded history window
+  const [replyTargets, setReplyTargets] = useState<Record<string, Message>>({});
+  const messagesRef = useRef<Message[]>([]);
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
+  const [unsendWindowSeconds, setUnsendWindowSeconds] = useState(DEFAULT_UNSEND_WINDOW_SECONDS);
   const [freshProfile, setFreshProfile] = useState<Profile | null>(initialProfile);
+  const [aliases] = useBuddyAliases(user.id, tab ? conversationId : '');
+  // Sender profiles already fetched, so paging and realtime inserts don't refetch them
+  const profileCacheRef = useRef<Map<string, Profile>>(new Map());
+  // Message to scroll to, e.g. a search hit; the key re-triggers a jump to the same message
+  const [focusRequest, setFocusRequest] = useState<{ messageId: string; key: number } | null>(
+    initialFocusMessageId ? { messageId: initialFocusMessageId, key: 0 } : null
+  );
+
+  useEffect(() => {
+    return window.electronAPI?.onFocusMessage((messageId, targetConversationId) => {
+      // Tabbed windows get these for every tab they host
+      if (targetConversationId && targetConversationId !== conversationId) return;
+      setFocusRequest({ messageId, key: Date.now() });
+    });
+  }, [conversationId]);
 
   // Fetch fresh profile data and subscribe to changes
   useEffect(() => {
@@ -600,14 +948,14 @@ function ChatWindow({ conversationId, user, profile: initialProfile }: {
         .eq('id', user.id)
         .single();
       if (data) {
-        setFreshProfile(data);
+        setFreshProfile(await withInvisibleStatus(data));
       }
     }
     loadFreshProfile();
 
     // Subscribe to ALL profile changes so we see when other participants go away/online
     const channel = supabase
-      .channel(`profile-changes-${user.id}`)
+      .channel(tab ? `profile-changes-${user.id}-${conversationId}` : `profile-changes-${user.id}`)
       .on('postgres_changes', {
         event: 'UPDATE',
         schema: 'public',
@@ -615,7 +963,15 @@ function ChatWindow({ conversationId, user, profile: initialProfile }: {
       }, (payload) => {
         const updatedProfile = payload.new as Profile;
         if (updatedProfile.id === user.id) {
-          setFreshProfile(updatedProfile);
+          // Going invisible arrives as 'offline'
+          setFreshProfile(prev =>
+            prev?.status === 'invisible' && updatedProfile.status === 'offline'
+              ? { ...updatedProfile, status: 'invisible' }
+              : updatedProfile
+          );
+        }
+        if (profileCacheRef.current.has(updatedProfile.id)) {
+          profileCacheRef.current.set(updatedProfile.id, updatedProfile);
         }
         // Update the participant in the conversation state too
         setConversation(prev => {
@@ -639,21 +995,35 @@ function ChatWindow({ conversationId, user, profile: initialProfile }: {
     loadAllData();
   }, [conversationId]);
 
+  // The unsend window is configured server-side
+  useEffect(() => {
+    supabase.rpc('message_unsend_window_seconds').then(({ data, error }) => {
+      if (!error && typeof data === 'number') {
+        setUnsendWindowSeconds(data);
+      }
+    });
+  }, []);
+
   async function loadAllData() {
     setLoading(true);
     setLoadingMessages(true);
 
     try {
-      // Load conversation and messages in parallel
-      const [convoResult, messagesResult] = await Promise.all([
+      // Load conversation, messages and receipts in parallel
+      const [convoResult, messagesResult, receiptsResult] = await Promise.all([
         loadConversationData(),
-        loadMessagesData()
+        loadMessagesData(),
+        loadReceiptsData()
       ]);
 
       if (convoResult) {
         setConversation(convoResult);
       }
       setMessages(messagesResult);
+      setHasMoreMessages(messagesResult.length === MESSAGES_PAGE_SIZE);
+      setReceipts(receiptsResult);
+      setReactions(await loadReactionsData(messagesResult));
+      loadReplyTargets(messagesResult);
     } finally {
       setLoading(false);
       setLoadingMessages(false);
@@ -682,52 +1052,342 @@ function ChatWindow({ conversationId, user, profile: initialProfile }: {
         .select('*')
         .in('id', userIds);
 
+      profiles?.forEach(p => profileCacheRef.current.set(p.id, p));
       return { ...convo, participants: profiles || [] };
     }
     return convo;
   }
 
-  async function loadMessagesData(): Promise<Message[]> {
+  async function loadReceiptsData(): Promise<ReadReceipt[]> {
     const { data } = await supabase
+      .from('read_receipts')
+      .select('*')
+      .eq('conversation_id', conversationId);
+    return data || [];
+  }
+
+  async function loadReactionsData(forMessages: Message[]): Promise<MessageReaction[]> {
+    if (forMessages.length === 0) return [];
+    const { data } = await supabase
+      .from('message_reactions')
+      .select('*')
+      .in('message_id', forMessages.map(m => m.id));
+    return data || [];
+  }
+
+  // Fetch one page of history, newest first, strictly older than the cursor message.
+  // Rows are returned in ascending order so they can be prepended as-is.
+  async function loadMessagesData(before?: Message): Promise<Message[]> {
+    let query = supabase
       .from('messages')
       .select('*')
-      .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
+      .eq('conversation_id', conversationId);
 
-    if (data && data.length > 0) {
-      const senderIds = [...new Set(data.map(m => m.sender_id))];
-      const { data: profiles } = await supabase
-        .from('profiles')
-        .select('*')
-        .in('id', senderIds);
+    if (before) {
+      query = query.or(olderThanFilter(before));
+    }
+
+    const { data } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGES_PAGE_SIZE);
 
-      return data.map(m => ({
+    if (data && data.length > 0) {
+      await cacheSenderProfiles(data.map(m => m.sender_id));
+      return data.reverse().map(m => ({
         ...m,
-        sender: profiles?.find(p => p.id === m.sender_id) || null
+        sender: profileCacheRef.current.get(m.sender_id) || null
       }));
     }
     return [];
   }
 
+  // Keyset cursor on (created_at, id) so messages sharing a timestamp aren't skipped
+  function olderThanFilter(before: Message): string {
+    return `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`;
+  }
+
+  // Fetch quoted messages that aren't part of the loaded history
+  async function loadReplyTargets(forMessages: Message[]) {
+    const loadedIds = new Set([...messagesRef.current, ...forMessages].map(m => m.id));
+    const missingIds = [...new Set(forMessages.map(m => m.reply_to_id))]
+      .filter((id): id is string => !!id && !loadedIds.has(id));
+    if (missingIds.length === 0) return;
+
+    const { data } = await supabase
+      .from('messages')
+      .select('*')
+      .in('id', missingIds);
+    if (!data || data.length === 0) return;
+
+    await cacheSenderProfiles(data.map(m => m.sender_id));
+    setReplyTargets(prev => {
+      const next = { ...prev };
+      data.forEach(m => { next[m.id] = { ...m, sender: profileCacheRef.current.get(m.sender_id) }; });
+      return next;
+    });
+  }
+
+  function mergeReactions(newReactions: MessageReaction[]) {
+    if (newReactions.length === 0) return;
+    setReactions(prev => {
+      const existingIds = new Set(prev.map(r => r.id));
+      return [...prev, ...newReactions.filter(r => !existingIds.has(r.id))];
+    });
+  }
+
+  function prependMessages(olderMessages: Message[]) {
+    if (olderMessages.length === 0) return;
+    setMessages(prev => {
+      const existingIds = new Set(prev.map(m => m.id));
+      return [...olderMessages.filter(m => !existingIds.has(m.id)), ...prev];
+    });
+  }
+
+  // Only fetch profiles we haven't seen yet in this window
+  async function cacheSenderProfiles(senderIds: string[]) {
+    const missingIds = [...new Set(senderIds)].filter(id => !profileCacheRef.current.has(id));
+    if (missingIds.length === 0) return;
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('*')
+      .in('id', missingIds);
+
+    profiles?.forEach(p => profileCacheRef.current.set(p.id, p));
+  }
+
+  // Every message in the conversation, oldest first, for exporting
+  async function loadFullHistory(): Promise<Message[]> {
+    const pageSize = 1000;
+    const history: Message[] = [];
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
+      if (error) throw error;
+      history.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+
+    await cacheSenderProfiles(history.map(m => m.sender_id));
+    return history.map(m => ({ ...m, sender: profileCacheRef.current.get(m.sender_id) }));
+  }
+
+  async function loadOlderMessages() {
+    if (loadingOlderMessages || !hasMoreMessages || messages.length === 0) return;
+    setLoadingOlderMessages(true);
+    try {
+      const olderMessages = await loadMessagesData(messages[0]);
+      setHasMoreMessages(olderMessages.length === MESSAGES_PAGE_SIZE);
+      mergeReactions(await loadReactionsData(olderMessages));
+      prependMessages(olderMessages);
+      loadReplyTargets(olderMessages);
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  }
+
+  // Load all history back to (and including) a quoted message or search hit so it can be scrolled to
+  async function loadMessagesThrough(messageId: string) {
+    const oldest = messagesRef.current[0];
+    if (!oldest || loadingOlderMessages) return;
+
+    let target: Pick<Message, 'created_at'> | null = replyTargets[messageId] || null;
+    if (!target) {
+      const { data } = await supabase
+        .from('messages')
+        .select('created_at')
+        .eq('id', messageId)
+        .eq('conversation_id', conversationId)
+        .maybeSingle();
+      target = data;
+    }
+    if (!target) return;
+
+    setLoadingOlderMessages(true);
+    try {
+      const { data } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .or(olderThanFilter(oldest))
+        .gte('created_at', target.created_at)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (data && data.length > 0) {
+        await cacheSenderProfiles(data.map(m => m.sender_id));
+        const olderMessages: Message[] = data.map(m => ({
+          ...m,
+          sender: profileCacheRef.current.get(m.sender_id) || null
+        }));
+        mergeReactions(await loadReactionsData(olderMessages));
+        prependMessages(olderMessages);
+        loadReplyTargets(olderMessages);
+      }
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  }
+
+  // Advance the read cursor while this window is focused with the latest message showing
+  const lastReadAtRef = useRef<string | null>(null);
+  const latestMessage = messages[messages.length - 1];
+  const isShowing = !tab || tab.active;
+  useEffect(() => {
+    if (!latestMessage) return;
+
+    // The message reached this window even if it isn't being looked at yet
+    if (latestMessage.sender_id !== user.id) {
+      recordReceipt(latestMessage.created_at);
+    }
+
+    const markRead = () => {
+      if (!document.hasFocus() || !isShowing) return;
+      markConversationRead(latestMessage.created_at);
+      recordReceipt(latestMessage.created_at, latestMessage.created_at);
+    };
+
+    markRead();
+    window.addEventListener('focus', markRead);
+    return () => window.removeEventListener('focus', markRead);
+  }, [latestMessage?.id, isShowing]);
+
+  // Messages from others that arrived while this tab was in the background
+  const [unreadCount, setUnreadCount] = useState(0);
+  const seenMessageIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!tab || !latestMessage) return;
+    // History already loaded when the tab opened doesn't count as new
+    if (isShowing || !seenMessageIdRef.current) {
+      seenMessageIdRef.current = latestMessage.id;
+      setUnreadCount(0);
+      return;
+    }
+    const seenIndex = messages.findIndex(m => m.id === seenMessageIdRef.current);
+    setUnreadCount(messages.slice(seenIndex + 1).filter(m => m.sender_id !== user.id).length);
+  }, [latestMessage?.id, isShowing]);
+
+  useEffect(() => {
+    tab?.onUnreadChange(unreadCount);
+  }, [unreadCount]);
+
+  async function markConversationRead(upTo: string) {
+    const lastReadAt = lastReadAtRef.current;
+    if (lastReadAt && new Date(lastReadAt).getTime() >= new Date(upTo).getTime()) return;
+    lastReadAtRef.current = upTo;
+
+    // Only ever move the cursor forward (another device may have read further)
+    const { error } = await supabase
+      .from('conversation_participants')
+      .update({ last_read_at: upTo })
+      .eq('conversation_id', conversationId)
+      .eq('user_id', user.id)
+      .lt('last_read_at', upTo);
+
+    if (error) {
+      console.error('Failed to mark conversation read:', error);
+      lastReadAtRef.current = lastReadAt;
+    }
+  }
+
+  async function recordReceipt(deliveredUpTo: string, readUpTo?: string) {
+    if (freshProfile?.read_receipts_enabled === false) return;
+    const { error } = await supabase.rpc('record_receipt', {
+      target_conversation_id: conversationId,
+      delivered_up_to: deliveredUpTo,
+      read_up_to: readUpTo ?? null,
+    });
+    if (error) {
+      console.error('Failed to record receipt:', error);
+    }
+  }
+
+  // Keep receipts from the other participants current
+  useEffect(() => {
+    const channel = supabase
+      .channel(`receipts-${conversationId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'read_receipts',
+        filter: `conversation_id=eq.${conversationId}`
+      }, (payload) => {
+        if (payload.eventType === 'DELETE') return;
+        const receipt = payload.new as ReadReceipt;
+        setReceipts(prev => [...prev.filter(r => r.id !== receipt.id), receipt]);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId]);
+
+  // Reactions added or removed from any window
+  useEffect(() => {
+    const channel = supabase
+      .channel(`reactions-${conversationId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'message_reactions',
+        filter: `conversation_id=eq.${conversationId}`
+      }, (payload) => {
+        const reaction = payload.new as MessageReaction;
+        setReactions(prev => prev.some(r => r.id === reaction.id) ? prev : [...prev, reaction]);
+      })
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'message_reactions',
+      }, (payload) => {
+        const removedId = (payload.old as { id?: string }).id;
+        if (removedId) {
+          setReactions(prev => prev.filter(r => r.id !== removedId));
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId]);
+
   // Set window title to conversation name
   useEffect(() => {
     if (!conversation) return;
 
+    let label: string;
+    let title: string;
     // For DMs, show the other participant's name
     if (!conversation.is_group) {
       const otherParticipant = conversation.participants?.find(p => p.id !== user.id);
       if (otherParticipant) {
-        document.title = `Instant Message with ${otherParticipant.screen_name || 'Chat'}`;
+        label = aliasedName(otherParticipant, aliases);
       } else {
         // Self-chat: show own name
         const selfParticipant = conversation.participants?.find(p => p.id === user.id);
-        document.title = `Instant Message with ${selfParticipant?.screen_name || freshProfile?.screen_name || 'Chat'}`;
+        label = selfParticipant?.screen_name || freshProfile?.screen_name || 'Chat';
       }
+      title = `Instant Message with ${label}`;
     } else {
       // For group chats, show the group name
-      document.title = conversation.name || 'Group Chat';
+      label = conversation.name || 'Group Chat';
+      title = label;
+    }
+
+    if (tab) {
+      tab.onTitleChange(label, title);
+    } else {
+      document.title = title;
     }
-  }, [conversation, user.id, freshProfile]);
+  }, [conversation, user.id, freshProfile, aliases]);
 
   useEffect(() => {
     if (!conversation) return;
@@ -741,19 +1401,42 @@ function ChatWindow({ conversationId, user, profile: initialProfile }: {
         filter: `conversation_id=eq.${conversationId}`
       }, async (payload) => {
         const newMessage = payload.new as Message;
-        const { data: senderProfile } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', newMessage.sender_id)
-          .single();
+        // Imported history is old; it shows up in order the next time the window loads
+        if (newMessage.imported_at) return;
+        await cacheSenderProfiles([newMessage.sender_id]);
+        const senderProfile = profileCacheRef.current.get(newMessage.sender_id);
 
         setMessages(prev => [...prev, { ...newMessage, sender: senderProfile }]);
+        loadReplyTargets([newMessage]);
 
         // Play sound for messages from others
         if (newMessage.sender_id !== user.id) {
           playMessageSound();
         }
       })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `conversation_id=eq.${conversationId}`
+      }, (payload) => {
+        // Edited or unsent in any window; keep the already-resolved sender
+        const updatedMessage = payload.new as Message;
+        setMessages(prev => prev.map(m =>
+          m.id === updatedMessage.id ? { ...updatedMessage, sender: m.sender } : m
+        ));
+      })
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'messages',
+      }, (payload) => {
+        // DELETE events can't be filtered by conversation; only the id is sent
+        const deletedId = (payload.old as { id?: string }).id;
+        if (deletedId) {
+          setMessages(prev => prev.filter(m => m.id !== deletedId));
+        }
+      })
       .subscribe();
 
     return () => {
@@ -761,9 +1444,12 @@ function ChatWindow({ conversationId, user, profile: initialProfile }: {
     };
   }, [conversation?.id]);
 
+  // Tabs fill the space under the tab strip rather than the whole window
+  const heightClass = tab ? 'h-full' : 'h-screen';
+
   if (loading) {
     return (
-      <div className="h-screen bg-win-gray flex items-center justify-center">
+      <div className={`${heightClass} bg-win-gray flex items-center justify-center`}>
         <div className="text-gray-600 text-xs">Loading chat...</div>
       </div>
     );
@@ -771,25 +1457,354 @@ function ChatWindow({ conversationId, user, profile: initialProfile }: {
 
   if (!conversation) {
     return (
-      <div className="h-screen bg-win-gray flex items-center justify-center">
+      <div className={`${heightClass} bg-win-gray flex items-center justify-center`}>
         <div className="text-gray-600 text-xs">Conversation not found</div>
       </div>
     );
   }
 
   return (
-    <div className="h-screen flex flex-col bg-win-gray win-raised">
+    <div className={`${heightClass} flex flex-col bg-win-gray win-raised`}>
       <ChatArea
         conversation={conversation}
         messages={messages}
         currentUserId={user.id}
         profile={freshProfile}
+        aliases={aliases}
         loadingMessages={loadingMessages}
+        hasMoreMessages={hasMoreMessages}
+        loadingOlderMessages={loadingOlderMessages}
+        onLoadOlderMessages={loadOlderMessages}
+        receipts={receipts}
+        unsendWindowSeconds={unsendWindowSeconds}
+        reactions={reactions}
+        replyTargets={replyTargets}
+        onLoadMessagesThrough={loadMessagesThrough}
+        focusRequest={focusRequest}
+        onLoadFullHistory={loadFullHistory}
       />
     </div>
   );
 }
 
+// Render a search snippet, bolding the words the server marked with <b></b>
+function renderSearchSnippet(snippet: string) {
+  return snippet.split(/(<b>.*?<\/b>)/g).map((part, i) =>
+    part.startsWith('<b>') && part.endsWith('</b>')
+      ? <b key={i} className="bg-aim-yellow/60">{part.slice(3, -4)}</b>
+      : <React.Fragment key={i}>{part}</React.Fragment>
+  );
+}
+
+// Several conversations in one window, one tab each. Main decides which
+// conversations live here; closing or dragging out a tab hands it back.
+function TabbedChatWindow({ user, profile }: { user: User; profile: Profile | null }) {
+  const [tabs, setTabs] = useState<(ChatTab & { label: string; title: string; unread: number })[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const addTab = (tab: ChatTab, activate: boolean) => {
+      setTabs(prev => prev.some(t => t.conversationId === tab.conversationId)
+        ? prev
+        : [...prev, {
+          ...tab,
+          label: tab.conversationName || 'Chat',
+          title: `Instant Message with ${tab.conversationName || 'Chat'}`,
+          unread: 0,
+        }]);
+      if (activate) setActiveId(tab.conversationId);
+    };
+
+    // Subscribe first so tabs opened while the list loads aren't missed
+    const unsubscribe = window.electronAPI?.onChatTabOpen(tab => addTab(tab, true));
+    window.electronAPI?.getChatTabs().then(initialTabs => {
+      initialTabs.forEach((tab, i) => addTab(tab, i === initialTabs.length - 1));
+    });
+    return unsubscribe;
+  }, []);
+
+  const activeTab = tabs.find(t => t.conversationId === activeId);
+
+  useEffect(() => {
+    if (!activeId) return;
+    window.electronAPI?.chatTabActivated(activeId);
+  }, [activeId]);
+
+  useEffect(() => {
+    if (activeTab) document.title = activeTab.title;
+  }, [activeTab?.title]);
+
+  const updateTab = (conversationId: string, updates: Partial<{ label: string; title: string; unread: number }>) => {
+    setTabs(prev => prev.map(t => t.conversationId === conversationId ? { ...t, ...updates } : t));
+  };
+
+  // Main closes the window once its last tab is gone
+  const removeTab = (conversationId: string) => {
+    const index = tabs.findIndex(t => t.conversationId === conversationId);
+    const remaining = tabs.filter(t => t.conversationId !== conversationId);
+    setTabs(remaining);
+    if (conversationId === activeId && remaining.length > 0) {
+      setActiveId(remaining[Math.min(index, remaining.length - 1)].conversationId);
+    }
+  };
+
+  const closeTab = (conversationId: string) => {
+    removeTab(conversationId);
+    window.electronAPI?.closeChatTab(conversationId);
+  };
+
+  const detachTab = (tab: ChatTab & { label: string }, position?: { x: number; y: number }) => {
+    removeTab(tab.conversationId);
+    window.electronAPI?.detachChatTab({ ...tab, conversationName: tab.label }, position);
+  };
+
+  const moveTab = (conversationId: string, beforeId: string) => {
+    if (conversationId === beforeId) return;
+    setTabs(prev => {
+      const moving = prev.find(t => t.conversationId === conversationId);
+      if (!moving) return prev;
+      const rest = prev.filter(t => t.conversationId !== conversationId);
+      const index = rest.findIndex(t => t.conversationId === beforeId);
+      return [...rest.slice(0, index), moving, ...rest.slice(index)];
+    });
+  };
+
+  // Ctrl+Tab / Ctrl+PageDown and their reverses cycle tabs; Ctrl+1-9 picks one
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || tabs.length === 0) return;
+      const index = Math.max(0, tabs.findIndex(t => t.conversationId === activeId));
+      let next: number | null = null;
+
+      if (e.key === 'Tab') {
+        next = index + (e.shiftKey ? -1 : 1);
+      } else if (e.key === 'PageDown') {
+        next = index + 1;
+      } else if (e.key === 'PageUp') {
+        next = index - 1;
+      } else if (/^[1-9]$/.test(e.key) && !e.shiftKey && !e.altKey) {
+        // 9 always means the last tab, as in browsers
+        next = e.key === '9' ? tabs.length - 1 : Math.min(Number(e.key) - 1, tabs.length - 1);
+      }
+
+      if (next === null) return;
+      e.preventDefault();
+      setActiveId(tabs[(next + tabs.length) % tabs.length].conversationId);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [tabs, activeId]);
+
+  return (
+    <div className="h-screen flex flex-col bg-win-gray">
+      <div className="flex items-end gap-0.5 px-1 pt-1 border-b border-win-border-dark overflow-x-auto shrink-0">
+        {tabs.map(tab => {
+          const isActive = tab.conversationId === activeId;
+          return (
+            <div
+              key={tab.conversationId}
+              draggable
+              onClick={() => setActiveId(tab.conversationId)}
+              onDoubleClick={() => detachTab(tab)}
+              onAuxClick={(e) => {
+                if (e.button === 1) closeTab(tab.conversationId);
+              }}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(CHAT_TAB_DRAG_TYPE, tab.conversationId);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                if (e.dataTransfer.types.includes(CHAT_TAB_DRAG_TYPE)) {
+                  e.preventDefault();
+                  setDragOverId(tab.conversationId);
+                }
+              }}
+              onDragLeave={() => setDragOverId(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragOverId(null);
+                const draggedId = e.dataTransfer.getData(CHAT_TAB_DRAG_TYPE);
+                if (draggedId) moveTab(draggedId, tab.conversationId);
+              }}
+              onDragEnd={(e) => {
+                // Dropped somewhere that isn't a tab strip, outside this window
+                const outside = e.clientX < 0 || e.clientY < 0 || e.clientX > window.innerWidth || e.clientY > window.innerHeight;
+                if (e.dataTransfer.dropEffect === 'none' && outside && tabs.length > 1) {
+                  detachTab(tab, { x: e.screenX, y: e.screenY });
+                }
+              }}
+              title={`${tab.title} (double-click or drag out to open in its own window)`}
+              className={`flex items-center gap-1 max-w-[160px] px-2 py-0.5 text-xs cursor-default select-none border border-b-0 border-win-border-dark ${
+                isActive ? 'bg-white -mb-px pb-1' : 'bg-win-gray-light hover:bg-gray-100'
+              } ${dragOverId === tab.conversationId ? 'border-l-2 border-l-[#316AC5]' : ''}`}
+            >
+              <span className={`truncate ${tab.unread ? 'font-bold text-red-700' : 'text-gray-800'}`}>{tab.label}</span>
+              <UnreadBadge count={isActive ? 0 : tab.unread} />
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  closeTab(tab.conversationId);
+                }}
+                className="shrink-0 px-0.5 leading-none text-gray-500 hover:text-white hover:bg-red-500"
+                title="Close tab"
+              >
+                x
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex-1 min-h-0">
+        {/* Background tabs stay mounted so they keep receiving messages */}
+        {tabs.map(tab => (
+          <div key={tab.conversationId} className={tab.conversationId === activeId ? 'h-full' : 'hidden'}>
+            <ChatWindow
+              conversationId={tab.conversationId}
+              user={user}
+              profile={profile}
+              initialFocusMessageId={tab.focusMessageId}
+              tab={{
+                active: tab.conversationId === activeId,
+                onTitleChange: (label, title) => updateTab(tab.conversationId, { label, title }),
+                onUnreadChange: (unread) => updateTab(tab.conversationId, { unread }),
+              }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function SearchWindow({ user }: { user: User }) {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<MessageSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Labels for the conversations and senders that appear in the results
+  const [conversationNames, setConversationNames] = useState<Record<string, string>>({});
+  const [senderNames, setSenderNames] = useState<Record<string, string>>({});
+
+  async function loadResultLabels(results: MessageSearchHit[]) {
+    const conversationIds = [...new Set(results.map(h => h.conversation_id))];
+    if (conversationIds.length === 0) return;
+
+    const [{ data: convos }, { data: participants }] = await Promise.all([
+      supabase.from('conversations').select('*').in('id', conversationIds),
+      supabase.from('conversation_participants').select('conversation_id, user_id').in('conversation_id', conversationIds),
+    ]);
+
+    const userIds = [...new Set([
+      ...(participants || []).map(p => p.user_id),
+      ...results.map(h => h.sender_id),
+    ])];
+    const { data: profiles } = await supabase.from('profiles').select('id, screen_name').in('id', userIds);
+    const names: Record<string, string> = {};
+    profiles?.forEach(p => { names[p.id] = p.screen_name; });
+
+    const labels: Record<string, string> = {};
+    convos?.forEach(c => {
+      if (c.is_group) {
+        labels[c.id] = c.name || 'Group Chat';
+        return;
+      }
+      const otherId = participants?.find(p => p.conversation_id === c.id && p.user_id !== user.id)?.user_id;
+      labels[c.id] = names[otherId || user.id] || 'Chat';
+    });
+
+    setSenderNames(names);
+    setConversationNames(labels);
+  }
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed || searching) return;
+
+    setSearching(true);
+    setError(null);
+    const { data, error } = await supabase.rpc('search_messages', {
+      search_query: trimmed,
+      max_results: 50,
+    });
+
+    if (error) {
+      console.error('Failed to search messages:', error);
+      setError('Search failed. Please try again.');
+      setHits([]);
+    } else {
+      const results = (data as MessageSearchHit[] | null) || [];
+      await loadResultLabels(results);
+      setHits(results);
+    }
+    setSearched(true);
+    setSearching(false);
+  };
+
+  const openHit = (hit: MessageSearchHit) => {
+    window.electronAPI?.openChatWindow(
+      hit.conversation_id,
+      conversationNames[hit.conversation_id] || 'Chat',
+      hit.message_id
+    );
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-win-gray win-raised">
+      <form onSubmit={handleSearch} className="flex gap-1 p-2 border-b border-win-border-dark">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="win-input flex-1 py-0.5 text-sm"
+          placeholder='Words or "exact phrase"'
+          autoFocus
+        />
+        <button type="submit" disabled={searching || !query.trim()} className="win-button px-3 py-0.5 text-xs font-bold disabled:opacity-50">
+          {searching ? '...' : 'Search'}
+        </button>
+      </form>
+
+      <div className="flex-1 overflow-y-auto bg-white win-sunken m-1">
+        {error ? (
+          <div className="p-2 text-xs text-red-700">{error}</div>
+        ) : searched && hits.length === 0 ? (
+          <div className="p-2 text-xs text-gray-500">No messages found.</div>
+        ) : (
+          hits.map(hit => (
+            <button
+              key={hit.message_id}
+              type="button"
+              onClick={() => openHit(hit)}
+              className="block w-full text-left px-2 py-1 border-b border-gray-200 hover:bg-[#316AC5]/10 focus:bg-[#316AC5]/20 focus:outline-none"
+              title="Open the conversation at this message"
+            >
+              <div className="flex justify-between gap-2 text-xs">
+                <span className="font-bold truncate">{conversationNames[hit.conversation_id] || 'Chat'}</span>
+                <span className="text-gray-500 whitespace-nowrap">{new Date(hit.created_at).toLocaleString()}</span>
+              </div>
+              <div className="text-sm text-gray-800">
+                <span className={hit.sender_id === user.id ? 'text-red-700' : 'text-[#0000FF]'}>
+                  {senderNames[hit.sender_id] || 'Unknown'}:
+                </span>{' '}
+                {renderSearchSnippet(hit.snippet)}
+              </div>
+            </button>
+          ))
+        )}
+      </div>
+      {hits.length > 0 && (
+        <div className="px-2 pb-1 text-[10px] text-gray-500">
+          {hits.length} {hits.length === 1 ? 'match' : 'matches'}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function BuddyList({ user, profile, onLogout, setProfile }: {
   user: User;
   profile: Profile | null;
@@ -801,8 +1816,16 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
   useEffect(() => { friendsRef.current = friends; }, [friends]);
   const [pendingRequests, setPendingRequests] = useState<Friend[]>([]);
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const conversationsRef = useRef<Conversation[]>([]);
+  useEffect(() => { conversationsRef.current = conversations; }, [conversations]);
+  const profileRef = useRef<Profile | null>(profile);
+  useEffect(() => { profileRef.current = profile; }, [profile]);
   const [showAddFriend, setShowAddFriend] = useState(false);
+  // Filled in when Add Buddy is opened from a buddylist://addbuddy link
+  const [addFriendScreenName, setAddFriendScreenName] = useState('');
   const [showMyAimMenu, setShowMyAimMenu] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [showImportLogs, setShowImportLogs] = useState(false);
   const [showCreateGroup, setShowCreateGroup] = useState(false);
   const [viewingProfileId, setViewingProfileId] = useState<string | null>(null);
   const viewingProfile = viewingProfileId
@@ -812,12 +1835,63 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
   const [showAvatarPicker, setShowAvatarPicker] = useState(false);
   const [loadingFriends, setLoadingFriends] = useState(true);
   const [loadingConversations, setLoadingConversations] = useState(true);
-  const startingDMRef = useRef(false);
   const [buddiesCollapsed, setBuddiesCollapsed] = useState(false);
   const [offlineCollapsed, setOfflineCollapsed] = useState(false);
   const [groupsCollapsed, setGroupsCollapsed] = useState(false);
   const [recentlySignedOn, setRecentlySignedOn] = useState<Set<string>>(new Set());
+  // Buddies we appear online to while invisible
+  const [revealedTo, setRevealedTo] = useState<Set<string>>(new Set());
+  const [pounces, setPounces] = useState<BuddyPounce[]>([]);
+  const pouncesRef = useRef<BuddyPounce[]>([]);
+  useEffect(() => { pouncesRef.current = pounces; }, [pounces]);
+  // Open Buddy Pounce dialog, optionally preset to one buddy
+  const [buddyPounceDialog, setBuddyPounceDialog] = useState<{ buddyId: string | null } | null>(null);
+  const [buddyGroups, setBuddyGroups] = useState<BuddyGroup[]>([]);
+  const buddyGroupsRef = useRef<BuddyGroup[]>([]);
+  useEffect(() => { buddyGroupsRef.current = buddyGroups; }, [buddyGroups]);
+  const [groupMembers, setGroupMembers] = useState<BuddyGroupMember[]>([]);
+  const [showManageGroups, setShowManageGroups] = useState(false);
+  const [privacyMode, setPrivacyMode] = useState<PrivacyMode>('allow_all');
+  const [privacyList, setPrivacyList] = useState<PrivacyListEntry[]>([]);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [warnTarget, setWarnTarget] = useState<Profile | null>(null);
+  const blockedIds = new Set(privacyList.filter(e => e.list === 'deny').map(e => e.target_id));
+  const [aliases] = useBuddyAliases(user.id);
+  // Realtime handlers are set up once, so they read aliases through a ref
+  const aliasesRef = useRef<BuddyAliases>(aliases);
+  useEffect(() => { aliasesRef.current = aliases; }, [aliases]);
   const signOnTimeouts = useRef<Set<NodeJS.Timeout>>(new Set());
+  // Invisible buddies who chose to appear online to us
+  const revealedToMeRef = useRef<Set<string>>(new Set());
+  // presence_reveals rows naming us, to recognize their DELETE events
+  const revealIdsRef = useRef<Set<string>>(new Set());
+
+  const withReveal = (p: Profile): Profile =>
+    p.status === 'offline' && revealedToMeRef.current.has(p.id) ? { ...p, status: 'online' } : p;
+
+  // Highlight a buddy who just signed on for a few seconds
+  function markSignedOn(friendId: string) {
+    playSignOnSound();
+    const buddy = friendsRef.current.find(f => f.profile?.id === friendId)?.profile;
+    if (buddy && notificationSettingsRef.current.signOns) {
+      window.electronAPI?.showNotification({
+        title: aliasedName(buddy, aliasesRef.current),
+        body: 'Signed on',
+        icon: avatarDataUrl(buddy.avatar_url),
+        buddyId: buddy.id,
+      });
+    }
+    setRecentlySignedOn(prev => new Set(prev).add(friendId));
+    const timeout = setTimeout(() => {
+      setRecentlySignedOn(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(friendId);
+        return newSet;
+      });
+      signOnTimeouts.current.delete(timeout);
+    }, 3000);
+    signOnTimeouts.current.add(timeout);
+  }
 
   const avatarPickerRef = useRef<HTMLDivElement>(null);
   const myAimMenuRef = useRef<HTMLDivElement>(null);
@@ -851,6 +1925,57 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
     return unsubscribe;
   }, [user.id]);
 
+  // Keep the tray icon and menu in step with our status and saved away messages
+  useEffect(() => {
+    window.electronAPI?.setTrayState({
+      status: profile?.status || 'online',
+      screenName: profile?.screen_name || null,
+      awayMessages: loadSavedAwayMessages().map(({ id, label }) => ({ id, label })),
+    });
+  }, [profile?.status, profile?.screen_name, showAwayMessage]);
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.onTrayCommand((command) => {
+      switch (command.action) {
+        case 'set-status':
+          handleStatusChange(command.status);
+          break;
+        case 'set-away-message': {
+          const saved = loadSavedAwayMessages().find(m => m.id === command.awayMessageId);
+          if (saved) updateStatus('away', saved.message);
+          break;
+        }
+        case 'set-do-not-disturb':
+          updateNotificationSettings({ ...notificationSettingsRef.current, doNotDisturb: command.enabled });
+          break;
+        case 'sign-off':
+          onLogout();
+          break;
+      }
+    });
+    return () => {
+      unsubscribe?.();
+      window.electronAPI?.setTrayState({ status: 'offline', screenName: null, awayMessages: [] });
+    };
+  }, [user.id]);
+
+  // Minimizing to the tray only makes sense while signed on
+  const [minimizeToTray, setMinimizeToTray] = useState(() => localStorage.getItem('aim_minimize_to_tray') === 'true');
+  useEffect(() => {
+    localStorage.setItem('aim_minimize_to_tray', String(minimizeToTray));
+    window.electronAPI?.setMinimizeToTray(minimizeToTray);
+  }, [minimizeToTray]);
+  useEffect(() => () => window.electronAPI?.setMinimizeToTray(false), []);
+
+  // Only affects IMs opened after it changes
+  const [chatWindowMode, setChatWindowMode] = useState<ChatWindowMode>(() =>
+    localStorage.getItem('aim_chat_window_mode') === 'tabs' ? 'tabs' : 'windows'
+  );
+  useEffect(() => {
+    localStorage.setItem('aim_chat_window_mode', chatWindowMode);
+    window.electronAPI?.setChatWindowMode(chatWindowMode);
+  }, [chatWindowMode]);
+
   // Close My AIM menu when clicking outside
   useEffect(() => {
     if (!showMyAimMenu) return;
@@ -865,67 +1990,220 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
 
   // Track previous friend statuses for sound effects
   const previousStatusesRef = useRef<Map<string, string>>(new Map());
+  // Previous idle_since per buddy, to notice when they come back
+  const previousIdleRef = useRef<Map<string, string | null>>(new Map());
+
+  // Idle times are shown in minutes, so re-render once a minute
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Publish system-wide idle state (tracked by the main process) as idle_since.
+  // Re-published on status changes, since nothing is published while invisible.
+  useEffect(() => {
+    const publishIdleState = async ({ idleSince }: { idleSince: number | null }) => {
+      // Buddies would see an invisible user's idle changes; the server clears it anyway
+      const status = profileRef.current?.status;
+      if (status === 'invisible' || status === 'offline') {
+        if (profileRef.current?.idle_since) {
+          setProfile({ ...profileRef.current, idle_since: null });
+        }
+        return;
+      }
+
+      const idle_since = idleSince ? new Date(idleSince).toISOString() : null;
+      if ((profileRef.current?.idle_since || null) === idle_since) return;
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ idle_since })
+        .eq('id', user.id);
+      if (error) {
+        console.error('Failed to update idle time:', error);
+        return;
+      }
+      if (profileRef.current) {
+        setProfile({ ...profileRef.current, idle_since });
+      }
+    };
+
+    // Also clears an idle_since left over from the last session
+    window.electronAPI?.getIdleState().then(publishIdleState);
+    return window.electronAPI?.onIdleStateChanged(publishIdleState);
+  }, [user.id, profile?.status]);
+
+  // Presence heartbeat: the server signs us off if these stop (crash, sleep, lost network)
+  useEffect(() => {
+    const sendHeartbeat = async () => {
+      const { error } = await supabase.rpc('heartbeat');
+      if (error) {
+        console.error('Presence heartbeat failed:', error);
+      }
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, PRESENCE_HEARTBEAT_INTERVAL);
+    // Check in right away after reconnecting or waking instead of waiting for the next tick
+    window.addEventListener('online', sendHeartbeat);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') sendHeartbeat();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', sendHeartbeat);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [user.id]);
 
-  // Auto-away after 10 minutes of inactivity
-  const inactivityTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Auto-away on system idle, screen lock or sleep, as set in Preferences
+  const [autoAwaySettings, setAutoAwaySettings] = useState<AutoAwaySettings>(loadAutoAwaySettings);
+  const autoAwaySettingsRef = useRef(autoAwaySettings);
   const wasAutoAwayRef = useRef(false);
   const profileStatusRef = useRef(profile?.status);
-  const AUTO_AWAY_TIMEOUT = 10 * 60 * 1000; // 10 minutes
 
-  // Keep status ref in sync
+  // Keep status ref in sync; any status change other than auto-away ends it
   useEffect(() => {
     profileStatusRef.current = profile?.status;
+    if (profile?.status !== 'away') {
+      wasAutoAwayRef.current = false;
+    }
   }, [profile?.status]);
 
+  // The main process tracks idle time, so it needs the threshold
+  useEffect(() => {
+    autoAwaySettingsRef.current = autoAwaySettings;
+    window.electronAPI?.setIdleThreshold(autoAwaySettings.idleMinutes * 60);
+  }, [autoAwaySettings]);
+
+  function updateAutoAwaySettings(settings: AutoAwaySettings) {
+    saveAutoAwaySettings(settings);
+    setAutoAwaySettings(settings);
+  }
+
+  // Desktop notifications; realtime handlers read the settings through the ref
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(loadNotificationSettings);
+  const notificationSettingsRef = useRef(notificationSettings);
+  useEffect(() => {
+    notificationSettingsRef.current = notificationSettings;
+    window.electronAPI?.setDoNotDisturb(notificationSettings.doNotDisturb);
+  }, [notificationSettings]);
+
+  function updateNotificationSettings(settings: NotificationSettings) {
+    saveNotificationSettings(settings);
+    setNotificationSettings(settings);
+  }
+
+  // Clicking a sign-on or pounce notification starts an IM; replying from a
+  // message notification sends straight into that conversation
   useEffect(() => {
-    const resetInactivityTimer = () => {
-      // Clear existing timer
-      if (inactivityTimerRef.current) {
-        clearTimeout(inactivityTimerRef.current);
+    const unsubscribeClicked = window.electronAPI?.onNotificationClicked(({ buddyId }) => {
+      startDirectMessage(buddyId);
+    });
+    const unsubscribeReply = window.electronAPI?.onNotificationReply(async ({ conversationId, text }) => {
+      const { error } = await supabase.from('messages').insert({
+        conversation_id: conversationId,
+        sender_id: user.id,
+        content: textToHtml(text.trim()),
+      });
+      if (error) {
+        console.error('Failed to send notification reply:', error);
       }
+    });
+    return () => {
+      unsubscribeClicked?.();
+      unsubscribeReply?.();
+    };
+  }, [user.id]);
 
-      // If user was auto-away and is now active, set them back to online
-      if (wasAutoAwayRef.current && profileStatusRef.current === 'away') {
-        updateStatus('online');
-        wasAutoAwayRef.current = false;
+  // buddylist:// links opened while the app was closed are waiting in main;
+  // later ones (including from a second launch) announce themselves
+  useEffect(() => {
+    const openDeepLink = async (link: string) => {
+      const target = parseDeepLink(link);
+      if (!target) return;
+
+      if (target.action === 'addbuddy') {
+        setAddFriendScreenName(target.screenName);
+        setShowAddFriend(true);
+        return;
       }
 
-      // Set new timer — only if user is online (don't override manual away)
-      if (profileStatusRef.current === 'online') {
-        inactivityTimerRef.current = setTimeout(() => {
-          if (profileStatusRef.current === 'online') {
-            updateStatus('away', 'Auto-away: Inactive');
-            wasAutoAwayRef.current = true;
-          }
-        }, AUTO_AWAY_TIMEOUT);
+      const { data: buddy } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('screen_name', target.screenName)
+        .maybeSingle();
+      if (!buddy) {
+        window.alert(`${target.screenName} isn't a BuddyList user.`);
+        return;
       }
+      startDirectMessage(buddy.id);
+    };
+
+    const takeDeepLinks = async () => {
+      const links = await window.electronAPI?.takeDeepLinks();
+      links?.forEach(openDeepLink);
     };
 
-    // Activity events to track
-    const events = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'click'];
+    takeDeepLinks();
+    return window.electronAPI?.onDeepLink(takeDeepLinks);
+  }, [user.id]);
+
+  useEffect(() => {
+    const goAutoAway = () => {
+      // Only from online, so a manual away message or invisible is left alone
+      if (profileStatusRef.current !== 'online') return;
+      const { awayMessageId } = autoAwaySettingsRef.current;
+      const saved = awayMessageId ? loadSavedAwayMessages().find(m => m.id === awayMessageId) : undefined;
+      updateStatus('away', saved?.message || DEFAULT_AUTO_AWAY_MESSAGE);
+      wasAutoAwayRef.current = true;
+    };
+
+    const returnFromAutoAway = () => {
+      if (!wasAutoAwayRef.current) return;
+      // Without auto-return the user stays away until they change status themselves
+      wasAutoAwayRef.current = false;
+      if (autoAwaySettingsRef.current.autoReturn && profileStatusRef.current === 'away') {
+        updateStatus('online');
+      }
+    };
 
-    // Add listeners
-    events.forEach(event => {
-      document.addEventListener(event, resetInactivityTimer, { passive: true });
+    const unsubscribeIdle = window.electronAPI?.onIdleStateChanged(({ idleSince }) => {
+      if (!idleSince) {
+        returnFromAutoAway();
+      } else if (autoAwaySettingsRef.current.awayWhenIdle) {
+        goAutoAway();
+      }
     });
 
-    // Start initial timer
-    resetInactivityTimer();
+    const unsubscribePower = window.electronAPI?.onPowerStateChanged((state) => {
+      if (state === 'unlock-screen' || state === 'resume') {
+        returnFromAutoAway();
+      } else if (autoAwaySettingsRef.current.awayOnLock) {
+        goAutoAway();
+      }
+    });
 
     return () => {
-      // Cleanup
-      events.forEach(event => {
-        document.removeEventListener(event, resetInactivityTimer);
-      });
-      if (inactivityTimerRef.current) {
-        clearTimeout(inactivityTimerRef.current);
-      }
+      unsubscribeIdle?.();
+      unsubscribePower?.();
     };
   }, []);
 
   useEffect(() => {
     loadFriends();
     loadConversations();
+    supabase
+      .from('presence_reveals')
+      .select('viewer_id')
+      .eq('user_id', user.id)
+      .then(({ data }) => {
+        if (data) setRevealedTo(new Set(data.map(r => r.viewer_id)));
+      });
 
     // Subscribe to realtime updates for friends involving this user
     const friendsChannel = supabase
@@ -933,41 +2211,49 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
       .on('postgres_changes', { event: '*', schema: 'public', table: 'friends', filter: `user_id=eq.${user.id}` }, () => {
         loadFriends();
       })
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'friends', filter: `friend_id=eq.${user.id}` }, () => {
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'friends', filter: `friend_id=eq.${user.id}` }, (payload) => {
         loadFriends();
+        const request = payload.new as Partial<Friend>;
+        if (payload.eventType === 'INSERT' && request.status === 'pending' && request.user_id) {
+          notifyBuddyRequest(request.user_id);
+        }
       })
       .subscribe();
 
     const profilesChannel = supabase
       .channel('profiles-changes')
       .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'profiles' }, (payload) => {
-        const updatedProfile = payload.new as Profile;
+        const updatedProfile = withReveal(payload.new as Profile);
         const previousStatus = previousStatusesRef.current.get(updatedProfile.id);
 
         // Play door sounds only for friends (not all users)
         const isFriend = friendsRef.current.some(f => f.profile?.id === updatedProfile.id);
         if (isFriend && updatedProfile.id !== user.id && previousStatus) {
-          // Sign on: offline → online
-          if ((previousStatus === 'offline' || !previousStatus) && updatedProfile.status === 'online') {
-            playSignOnSound();
-            setRecentlySignedOn(prev => new Set(prev).add(updatedProfile.id));
-            const timeout = setTimeout(() => {
-              setRecentlySignedOn(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(updatedProfile.id);
-                return newSet;
-              });
-              signOnTimeouts.current.delete(timeout);
-            }, 3000);
-            signOnTimeouts.current.add(timeout);
-          // Sign off: online or away → offline (includes going invisible)
+          // Sign on: offline → online, or back as away after the server timed them out
+          if ((previousStatus === 'offline' || !previousStatus) && updatedProfile.status !== 'offline') {
+            markSignedOn(updatedProfile.id);
+          // Sign off: online or away → offline (includes going invisible, and
+          // heartbeat expiry when their app crashed or lost its connection)
           } else if (previousStatus !== 'offline' && updatedProfile.status === 'offline') {
             playSignOffSound();
           }
         }
 
+        // Buddy Pounce
+        if (isFriend && updatedProfile.id !== user.id && previousStatus) {
+          if (previousStatus === 'offline' && updatedProfile.status !== 'offline') {
+            firePounces(updatedProfile, 'sign_on');
+          } else if (previousStatus === 'away' && updatedProfile.status === 'online') {
+            firePounces(updatedProfile, 'return_from_away');
+          }
+          if (previousIdleRef.current.get(updatedProfile.id) && !updatedProfile.idle_since && updatedProfile.status !== 'offline') {
+            firePounces(updatedProfile, 'return_from_idle');
+          }
+        }
+
         // Update tracked status
         previousStatusesRef.current.set(updatedProfile.id, updatedProfile.status);
+        previousIdleRef.current.set(updatedProfile.id, updatedProfile.idle_since ?? null);
 
         // Update only the specific friend's profile in state (not reload all)
         setFriends(prevFriends =>
@@ -978,9 +2264,73 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
           )
         );
 
-        // Also update current user's profile if it's their own
+        // Also update current user's profile if it's their own (going invisible arrives as 'offline')
         if (updatedProfile.id === user.id) {
-          setProfile(updatedProfile);
+          // Only warn_user moves warning_updated_at
+          if (updatedProfile.warning_updated_at && updatedProfile.warning_updated_at !== profileRef.current?.warning_updated_at) {
+            notifyWarned(updatedProfile.warning_level ?? 0);
+          }
+          setProfile(
+            profileRef.current?.status === 'invisible' && updatedProfile.status === 'offline'
+              ? { ...updatedProfile, status: 'invisible' }
+              : updatedProfile
+          );
+        }
+      })
+      .subscribe();
+
+    // RLS only shows our own row and those of buddies who revealed themselves to us
+    const invisibleChannel = supabase
+      .channel(`invisible-presence-${user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'invisible_presence' }, (payload) => {
+        const row = payload.new as { user_id: string; active: boolean };
+        if (!row.user_id) return;
+
+        if (row.user_id === user.id) {
+          // The server ended our invisible session (heartbeat expiry) or the heartbeat restored it
+          const current = profileRef.current;
+          if (!current) return;
+          if (row.active && current.status === 'offline') {
+            setProfile({ ...current, status: 'invisible' });
+          } else if (!row.active && current.status === 'invisible') {
+            setProfile({ ...current, status: 'offline' });
+          }
+          return;
+        }
+
+        if (row.active) {
+          revealedToMeRef.current.add(row.user_id);
+        } else {
+          revealedToMeRef.current.delete(row.user_id);
+        }
+
+        const friend = friendsRef.current.find(f => f.profile?.id === row.user_id);
+        if (!friend?.profile || friend.profile.status !== (row.active ? 'offline' : 'online')) return;
+        const status: Status = row.active ? 'online' : 'offline';
+        // No door closing here: going visible again ends the invisible session
+        // just before the profile update that signs them back on
+        if (row.active && previousStatusesRef.current.get(row.user_id) === 'offline') {
+          markSignedOn(row.user_id);
+          firePounces({ ...friend.profile, status }, 'sign_on');
+        }
+        previousStatusesRef.current.set(row.user_id, status);
+        setFriends(prevFriends =>
+          prevFriends.map(f =>
+            f.profile?.id === row.user_id && f.profile
+              ? { ...f, profile: { ...f.profile, status } }
+              : f
+          )
+        );
+      })
+      // Reveals made or withdrawn while the buddy is already invisible.
+      // DELETE events can't be filtered and only carry the row id.
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'presence_reveals', filter: `viewer_id=eq.${user.id}` }, () => {
+        loadFriends();
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'presence_reveals' }, (payload) => {
+        const removed = payload.old as { id?: string };
+        if (removed.id && revealIdsRef.current.has(removed.id)) {
+          loadFriends();
         }
       })
       .subscribe();
@@ -996,6 +2346,29 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
       }, () => {
         loadConversations();
       })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'conversation_participants',
+        filter: `user_id=eq.${user.id}`
+      }, (payload) => {
+        // Read cursor moved (from a chat window here or on another device)
+        const participation = payload.new as { conversation_id: string; last_read_at: string };
+        const convo = conversationsRef.current.find(c => c.id === participation.conversation_id);
+        if (!convo) return;
+        const caughtUp = !convo.last_message
+          || new Date(participation.last_read_at).getTime() >= new Date(convo.last_message.created_at).getTime();
+        if (caughtUp) {
+          setConversations(prev => prev.map(c =>
+            c.id === participation.conversation_id
+              ? { ...c, last_read_at: participation.last_read_at, unread_count: 0 }
+              : c
+          ));
+        } else {
+          // Read part-way through; let the server recount
+          loadConversationSummaries();
+        }
+      })
       .subscribe();
 
     // Subscribe to incoming messages for auto-opening chat windows
@@ -1007,14 +2380,38 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
         table: 'messages',
       }, async (payload) => {
         const newMessage = payload.new as Message;
+        // Imported history shouldn't pop windows or count as unread
+        if (newMessage.imported_at) return;
+
+        // Keep previews and unread badges current
+        setConversations(prev => prev.map(c => {
+          if (c.id !== newMessage.conversation_id) return c;
+          const isUnread = newMessage.sender_id !== user.id
+            && (!c.last_read_at || new Date(newMessage.created_at).getTime() > new Date(c.last_read_at).getTime());
+          return {
+            ...c,
+            last_message: newMessage,
+            unread_count: (c.unread_count || 0) + (isUnread ? 1 : 0),
+          };
+        }));
 
         // Ignore own messages
         if (newMessage.sender_id === user.id) return;
 
+        // This client received it, so it counts as delivered
+        if (profileRef.current?.read_receipts_enabled !== false) {
+          supabase.rpc('record_receipt', {
+            target_conversation_id: newMessage.conversation_id,
+            delivered_up_to: newMessage.created_at,
+          }).then(({ error }) => {
+            if (error) console.error('Failed to record delivery receipt:', error);
+          });
+        }
+
         // Check if user is a participant in this conversation
         const { data: participation } = await supabase
           .from('conversation_participants')
-          .select('conversation_id')
+          .select('conversation_id, notifications_muted')
           .eq('conversation_id', newMessage.conversation_id)
           .eq('user_id', user.id)
           .single();
@@ -1031,11 +2428,23 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
         // Get sender's screen name as fallback window title
         const { data: senderProfile } = await supabase
           .from('profiles')
-          .select('screen_name')
+          .select('screen_name, avatar_url')
           .eq('id', newMessage.sender_id)
           .single();
 
-        const windowName = convo?.name || senderProfile?.screen_name || 'Chat';
+        const senderName = aliasesRef.current.get(newMessage.sender_id)?.alias || senderProfile?.screen_name || 'Someone';
+        const windowName = convo?.name || (senderProfile ? senderName : 'Chat');
+
+        // Sent before the window opens, so main doesn't see it focused yet
+        if (notificationSettingsRef.current.messages && !participation.notifications_muted) {
+          window.electronAPI?.showNotification({
+            title: convo?.is_group ? `${senderName} in ${convo.name || 'Group Chat'}` : senderName,
+            body: messageSnippet(newMessage, 120),
+            icon: avatarDataUrl(senderProfile?.avatar_url),
+            conversationId: newMessage.conversation_id,
+            conversationName: windowName,
+          });
+        }
 
         // Check if chat window is already open
         const isOpen = await window.electronAPI?.isChatWindowOpen(newMessage.conversation_id);
@@ -1047,11 +2456,29 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
           window.electronAPI?.openChatWindow(newMessage.conversation_id, windowName);
         }
       })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+      }, (payload) => {
+        const updatedMessage = payload.new as Message;
+        const convo = conversationsRef.current.find(c => c.last_message?.id === updatedMessage.id);
+        if (!convo) return;
+        if (updatedMessage.deleted_at) {
+          // The preview message was unsent; fall back to the one before it
+          loadConversationSummaries();
+        } else {
+          setConversations(prev => prev.map(c =>
+            c.id === convo.id ? { ...c, last_message: updatedMessage } : c
+          ));
+        }
+      })
       .subscribe();
 
     return () => {
       supabase.removeChannel(friendsChannel);
       supabase.removeChannel(profilesChannel);
+      supabase.removeChannel(invisibleChannel);
       supabase.removeChannel(convParticipantsChannel);
       supabase.removeChannel(messagesChannel);
       signOnTimeouts.current.forEach(t => clearTimeout(t));
@@ -1059,32 +2486,216 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
     };
   }, [user.id]);
 
-  async function loadFriends() {
-    setLoadingFriends(true);
-    try {
-      // Get accepted friends
-      const { data: friendships } = await supabase
-        .from('friends')
-        .select('*')
-        .or(`user_id.eq.${user.id},friend_id.eq.${user.id}`)
-        .eq('status', 'accepted');
+  // Pounces are kept server-side so every signed-on machine has the same list
+  useEffect(() => {
+    loadPounces();
 
-      if (friendships) {
-        const friendIds = friendships.map(f => f.user_id === user.id ? f.friend_id : f.user_id);
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('*')
-          .in('id', friendIds);
+    const channel = supabase
+      .channel(`buddy-pounces-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'buddy_pounces', filter: `user_id=eq.${user.id}` }, () => {
+        loadPounces();
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'buddy_pounces', filter: `user_id=eq.${user.id}` }, () => {
+        loadPounces();
+      })
+      // DELETE events can't be filtered and only carry the row id
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'buddy_pounces' }, (payload) => {
+        const removed = payload.old as { id?: string };
+        if (removed.id && pouncesRef.current.some(p => p.id === removed.id)) {
+          setPounces(prev => prev.filter(p => p.id !== removed.id));
+        }
+      })
+      .subscribe();
 
-        const friendsWithProfiles = friendships.map(f => ({
-          ...f,
-          profile: profiles?.find(p => p.id === (f.user_id === user.id ? f.friend_id : f.user_id))
-        }));
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user.id]);
+
+  // Custom groups and buddy placement follow the user across devices
+  const groupsReloadTimerRef = useRef<NodeJS.Timeout | null>(null);
+  useEffect(() => {
+    loadBuddyGroups();
+
+    // A reorder touches a row per buddy, so batch the reloads
+    const scheduleReload = () => {
+      if (groupsReloadTimerRef.current) clearTimeout(groupsReloadTimerRef.current);
+      groupsReloadTimerRef.current = setTimeout(loadBuddyGroups, 300);
+    };
+
+    const channel = supabase
+      .channel(`buddy-groups-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'buddy_groups', filter: `user_id=eq.${user.id}` }, scheduleReload)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'buddy_groups', filter: `user_id=eq.${user.id}` }, scheduleReload)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'buddy_group_members', filter: `user_id=eq.${user.id}` }, scheduleReload)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'buddy_group_members', filter: `user_id=eq.${user.id}` }, scheduleReload)
+      // DELETE events can't be filtered and only carry the primary key
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'buddy_groups' }, (payload) => {
+        const removed = payload.old as { id?: string };
+        if (removed.id && buddyGroupsRef.current.some(g => g.id === removed.id)) {
+          scheduleReload();
+        }
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'buddy_group_members' }, (payload) => {
+        if ((payload.old as { user_id?: string }).user_id === user.id) {
+          scheduleReload();
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+      if (groupsReloadTimerRef.current) clearTimeout(groupsReloadTimerRef.current);
+    };
+  }, [user.id]);
+
+  // Privacy settings only change from this client, so they're loaded once
+  useEffect(() => {
+    loadPrivacy();
+  }, [user.id]);
+
+  async function loadBuddyGroups() {
+    const [{ data: groups, error: groupsError }, { data: members, error: membersError }] = await Promise.all([
+      supabase.from('buddy_groups').select('*').eq('user_id', user.id).order('position').order('created_at'),
+      supabase.from('buddy_group_members').select('*').eq('user_id', user.id),
+    ]);
+
+    if (groupsError || membersError) {
+      console.error('Failed to load buddy groups:', groupsError || membersError);
+      return;
+    }
+    setBuddyGroups(groups || []);
+    setGroupMembers(members || []);
+  }
+
+  async function toggleGroupCollapsed(group: BuddyGroup) {
+    setBuddyGroups(prev => prev.map(g => g.id === group.id ? { ...g, collapsed: !group.collapsed } : g));
+    const { error } = await supabase
+      .from('buddy_groups')
+      .update({ collapsed: !group.collapsed })
+      .eq('id', group.id);
+
+    if (error) {
+      console.error('Failed to update buddy group:', error);
+      loadBuddyGroups();
+    }
+  }
+
+  // Drop a buddy into a group (null for "Buddies"), before another buddy or at the end
+  async function moveBuddy(buddyId: string, groupId: string | null, beforeBuddyId?: string) {
+    if (buddyId === beforeBuddyId) return;
+    // Manual order is kept even while the list is sorted by name or status
+    const order = friendsInGroup(groupId, 'manual')
+      .map(f => f.profile?.id)
+      .filter((id): id is string => !!id && id !== buddyId);
+    const index = beforeBuddyId ? order.indexOf(beforeBuddyId) : -1;
+    order.splice(index === -1 ? order.length : index, 0, buddyId);
+
+    setGroupMembers(prev => [
+      ...prev.filter(m => !order.includes(m.buddy_id)),
+      ...order.map((id, position) => ({ user_id: user.id, buddy_id: id, group_id: groupId, position })),
+    ]);
+
+    const { error } = await supabase.rpc('set_buddy_group_order', { target_group_id: groupId, buddy_ids: order });
+    if (error) {
+      console.error('Failed to move buddy:', error);
+      loadBuddyGroups();
+    }
+  }
+
+  async function loadPounces() {
+    const { data, error } = await supabase
+      .from('buddy_pounces')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Failed to load buddy pounces:', error);
+      return;
+    }
+    setPounces(data || []);
+  }
+
+  async function firePounces(buddy: Profile, trigger: PounceTrigger) {
+    const matching = pouncesRef.current.filter(p => p.buddy_id === buddy.id && (
+      (trigger === 'sign_on' && p.on_sign_on)
+      || (trigger === 'return_from_away' && p.on_return_from_away)
+      || (trigger === 'return_from_idle' && p.on_return_from_idle)
+    ));
+
+    for (const pounce of matching) {
+      // Another machine of ours may have already run it
+      const { data: claimed, error } = await supabase.rpc('claim_buddy_pounce', { pounce_id: pounce.id });
+      if (error) {
+        console.error('Failed to claim buddy pounce:', error);
+        continue;
+      }
+      if (!claimed) continue;
+
+      if (pounce.play_sound) {
+        playPounceSound();
+      }
+      if (pounce.notify) {
+        window.electronAPI?.showNotification({
+          title: 'Buddy Pounce',
+          body: `${aliasedName(buddy, aliasesRef.current)} ${POUNCE_TRIGGER_LABELS[trigger]}`,
+          icon: avatarDataUrl(buddy.avatar_url),
+          buddyId: buddy.id,
+        });
+      }
+      if (pounce.message) {
+        const { data: conversationId, error: dmError } = await supabase.rpc('find_or_create_dm', { other_user_id: buddy.id });
+        if (dmError || !conversationId) {
+          console.error('Failed to send pounce message:', dmError);
+        } else {
+          const { error: sendError } = await supabase.from('messages').insert({
+            conversation_id: conversationId,
+            sender_id: user.id,
+            content: textToHtml(pounce.message),
+          });
+          if (sendError) {
+            console.error('Failed to send pounce message:', sendError);
+          }
+        }
+      }
+      if (pounce.open_chat) {
+        startDirectMessage(buddy.id);
+      }
+    }
+  }
+
+  async function loadFriends() {
+    setLoadingFriends(true);
+    try {
+      // Get accepted friends
+      const { data: friendships } = await supabase
+        .from('friends')
+        .select('*')
+        .or(`user_id.eq.${user.id},friend_id.eq.${user.id}`)
+        .eq('status', 'accepted');
+
+      if (friendships) {
+        const friendIds = friendships.map(f => f.user_id === user.id ? f.friend_id : f.user_id);
+        const [{ data: fetchedProfiles }, { data: invisibleBuddies }, { data: reveals }] = await Promise.all([
+          supabase.from('profiles').select('*').in('id', friendIds),
+          supabase.from('invisible_presence').select('user_id').eq('active', true).neq('user_id', user.id),
+          supabase.from('presence_reveals').select('id').eq('viewer_id', user.id),
+        ]);
+        revealedToMeRef.current = new Set((invisibleBuddies || []).map(r => r.user_id));
+        revealIdsRef.current = new Set((reveals || []).map(r => r.id));
+        const profiles = fetchedProfiles?.map(withReveal);
+
+        const friendsWithProfiles = friendships.map(f => ({
+          ...f,
+          profile: profiles?.find(p => p.id === (f.user_id === user.id ? f.friend_id : f.user_id))
+        }));
 
         // Initialize status tracking for sound effects
         profiles?.forEach(p => {
           if (!previousStatusesRef.current.has(p.id)) {
             previousStatusesRef.current.set(p.id, p.status);
+            previousIdleRef.current.set(p.id, p.idle_since ?? null);
           }
         });
 
@@ -1130,10 +2741,13 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
       }
 
       const conversationIds = participations.map(p => p.conversation_id);
-      const { data: convos } = await supabase
-        .from('conversations')
-        .select('*')
-        .in('id', conversationIds);
+      const [{ data: convos }, summaries] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('*')
+          .in('id', conversationIds),
+        fetchConversationSummaries(),
+      ]);
 
       if (convos) {
         // Load participants for each conversation
@@ -1149,7 +2763,7 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
             .select('*')
             .in('id', userIds);
 
-          return { ...c, participants: profiles || [] };
+          return { ...c, participants: profiles || [], ...summaries.get(c.id) };
         }));
         setConversations(convosWithParticipants);
       }
@@ -1158,142 +2772,77 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
     }
   }
 
-  async function startDirectMessage(friendId: string) {
-    // Prevent concurrent calls that could create duplicate conversations
-    if (startingDMRef.current) return;
-    startingDMRef.current = true;
-
-    try {
-    console.log('startDirectMessage called with friendId:', friendId);
-    const isSelfChat = friendId === user.id;
+  async function fetchConversationSummaries(): Promise<Map<string, Pick<Conversation, 'last_message' | 'last_read_at' | 'unread_count'>>> {
+    const summaries = new Map<string, Pick<Conversation, 'last_message' | 'last_read_at' | 'unread_count'>>();
+    const { data, error } = await supabase.rpc('get_conversation_summaries');
 
-    // Get friend's profile for the conversation name
-    const { data: friendProfile } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', friendId)
-      .single();
+    if (error) {
+      console.error('Failed to load conversation summaries:', error);
+      return summaries;
+    }
 
-    // Check database for existing DM conversation with this friend
-    const { data: myConvos } = await supabase
-      .from('conversation_participants')
-      .select('conversation_id')
-      .eq('user_id', user.id);
+    (data as ConversationSummary[] | null)?.forEach(row => {
+      summaries.set(row.conversation_id, {
+        last_read_at: row.last_read_at,
+        unread_count: row.unread_count,
+        last_message: row.last_message_id && row.last_message_sender_id && row.last_message_created_at
+          ? {
+            id: row.last_message_id,
+            conversation_id: row.conversation_id,
+            sender_id: row.last_message_sender_id,
+            content: row.last_message_content || '',
+            attachment_name: row.last_message_attachment_name,
+            created_at: row.last_message_created_at,
+          }
+          : undefined,
+      });
+    });
+    return summaries;
+  }
 
-    if (myConvos && myConvos.length > 0) {
-      const myConvoIds = myConvos.map(c => c.conversation_id);
+  // Refresh unread counts and previews without reloading participants
+  async function loadConversationSummaries() {
+    const summaries = await fetchConversationSummaries();
+    setConversations(prev => prev.map(c => ({ ...c, ...summaries.get(c.id) })));
+  }
 
-      if (isSelfChat) {
-        // Batch fetch: get all non-group conversations and their participants in 2 queries
-        const { data: nonGroupConvos } = await supabase
-          .from('conversations')
-          .select('id')
-          .in('id', myConvoIds)
-          .eq('is_group', false);
+  // The 1:1 conversation with a buddy, if one exists
+  const getDirectConversation = (friendId: string) =>
+    conversations.find(c =>
+      !c.is_group && c.participants?.length === 2 && c.participants.some(p => p.id === friendId)
+    );
 
-        if (nonGroupConvos && nonGroupConvos.length > 0) {
-          const nonGroupIds = nonGroupConvos.map(c => c.id);
-          const { data: allParticipants } = await supabase
-            .from('conversation_participants')
-            .select('conversation_id, user_id')
-            .in('conversation_id', nonGroupIds);
-
-          if (allParticipants) {
-            // Group participants by conversation
-            const participantsByConvo = new Map<string, string[]>();
-            for (const p of allParticipants) {
-              const list = participantsByConvo.get(p.conversation_id) || [];
-              list.push(p.user_id);
-              participantsByConvo.set(p.conversation_id, list);
-            }
+  async function startDirectMessage(friendId: string) {
+    console.log('startDirectMessage called with friendId:', friendId);
 
-            // Find self-chat: conversation with only the current user
-            for (const [convoId, userIds] of participantsByConvo) {
-              const unique = [...new Set(userIds)];
-              if (unique.length === 1 && unique[0] === user.id) {
-                console.log('Opening existing self-chat:', convoId);
-                window.electronAPI?.openChatWindow(
-                  convoId,
-                  friendProfile?.screen_name || 'Chat'
-                );
-                return;
-              }
-            }
-          }
-        }
-      } else {
-        // Find conversations where friend is also a participant
-        const { data: sharedConvos } = await supabase
-          .from('conversation_participants')
-          .select('conversation_id')
-          .eq('user_id', friendId)
-          .in('conversation_id', myConvoIds);
-
-        if (sharedConvos && sharedConvos.length > 0) {
-          // For each shared conversation, verify it's a 2-person DM (not self-chat or group)
-          for (const shared of sharedConvos) {
-            const { data: participants } = await supabase
-              .from('conversation_participants')
-              .select('user_id')
-              .eq('conversation_id', shared.conversation_id);
-
-            const { data: dmConvo } = await supabase
-              .from('conversations')
-              .select('*')
-              .eq('id', shared.conversation_id)
-              .eq('is_group', false)
-              .single();
-
-            if (dmConvo && participants) {
-              const uniqueParticipants = [...new Set(participants.map(p => p.user_id))];
-              // Must have exactly 2 unique participants (user and friend)
-              if (uniqueParticipants.length === 2) {
-                console.log('Opening existing DM conversation:', dmConvo.id);
-                window.electronAPI?.openChatWindow(
-                  dmConvo.id,
-                  friendProfile?.screen_name || 'Chat'
-                );
-                return;
-              }
-            }
-          }
-        }
+    // The RPC atomically finds or creates the 1:1 (or self) conversation,
+    // so concurrent clicks can't produce duplicate DMs
+    const [{ data: conversationId, error }, { data: friendProfile }] = await Promise.all([
+      supabase.rpc('find_or_create_dm', { other_user_id: friendId }),
+      supabase
+        .from('profiles')
+        .select('screen_name')
+        .eq('id', friendId)
+        .single(),
+    ]);
+
+    if (error || !conversationId) {
+      console.error('Failed to start direct message:', error);
+      if (isPrivacyRejection(error)) {
+        window.alert(`${aliasesRef.current.get(friendId)?.alias || friendProfile?.screen_name || 'This user'} isn't accepting messages from you.`);
       }
+      return;
     }
 
-    // Create new conversation
-    const { data: convo } = await supabase
-      .from('conversations')
-      .insert({ is_group: false })
-      .select()
-      .single();
-
-    if (convo) {
-      if (isSelfChat) {
-        // For self-chat, only add one participant entry
-        await supabase.from('conversation_participants').insert([
-          { conversation_id: convo.id, user_id: user.id }
-        ]);
-      } else {
-        // Add both participants
-        await supabase.from('conversation_participants').insert([
-          { conversation_id: convo.id, user_id: user.id },
-          { conversation_id: convo.id, user_id: friendId }
-        ]);
-      }
-
-      // Open the new conversation in a new window
-      console.log('Opening new conversation:', convo.id);
-      window.electronAPI?.openChatWindow(
-        convo.id,
-        friendProfile?.screen_name || 'Chat'
-      );
+    console.log('Opening DM conversation:', conversationId);
+    window.electronAPI?.openChatWindow(
+      conversationId,
+      aliasesRef.current.get(friendId)?.alias || friendProfile?.screen_name || 'Chat'
+    );
 
+    if (!conversations.some(c => c.id === conversationId)) {
       await loadConversations();
     }
-    } finally {
-      startingDMRef.current = false;
-    }
   }
 
   async function updateAvatar(emoji: string) {
@@ -1328,8 +2877,140 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
       .update(updateData)
       .eq('id', user.id);
 
+    // Read through the ref: auto-away calls this from long-lived listeners
+    if (profileRef.current) {
+      setProfile({ ...profileRef.current, ...updateData });
+    }
+  }
+
+  async function toggleReveal(viewerId: string, reveal: boolean) {
+    const { error } = reveal
+      ? await supabase.from('presence_reveals').insert({ user_id: user.id, viewer_id: viewerId })
+      : await supabase.from('presence_reveals').delete().eq('user_id', user.id).eq('viewer_id', viewerId);
+
+    if (error) {
+      console.error('Failed to update invisible reveal:', error);
+      return;
+    }
+
+    setRevealedTo(prev => {
+      const next = new Set(prev);
+      if (reveal) next.add(viewerId);
+      else next.delete(viewerId);
+      return next;
+    });
+  }
+
+  async function notifyBuddyRequest(senderId: string) {
+    if (!notificationSettingsRef.current.buddyRequests) return;
+    const { data: sender } = await supabase
+      .from('profiles')
+      .select('screen_name, avatar_url')
+      .eq('id', senderId)
+      .single();
+    if (!sender) return;
+    window.electronAPI?.showNotification({
+      title: 'Buddy Request',
+      body: `${sender.screen_name} wants to add you to their Buddy List`,
+      icon: avatarDataUrl(sender.avatar_url),
+    });
+  }
+
+  // Tell the user who warned them, unless it was anonymous
+  async function notifyWarned(level: number) {
+    const { data, error } = await supabase.rpc('received_warnings', { max_count: 1 });
+    if (error) {
+      console.error('Failed to load warnings:', error);
+    }
+    const latest = (data as { warner_screen_name: string | null }[] | null)?.[0];
+    window.electronAPI?.showNotification({
+      title: 'You have been warned',
+      body: `${latest?.warner_screen_name ? `${latest.warner_screen_name} warned you` : 'You were warned anonymously'}. Your warning level is now ${level}%.`,
+    });
+  }
+
+  async function loadPrivacy() {
+    const [{ data: settings, error: settingsError }, { data: entries, error: entriesError }] = await Promise.all([
+      supabase.from('privacy_settings').select('mode').eq('user_id', user.id).maybeSingle(),
+      supabase.from('privacy_list').select('target_id, list').eq('user_id', user.id).order('created_at'),
+    ]);
+
+    if (settingsError || entriesError) {
+      console.error('Failed to load privacy settings:', settingsError || entriesError);
+      return;
+    }
+
+    const targetIds = (entries || []).map(e => e.target_id);
+    const { data: profiles } = targetIds.length
+      ? await supabase.from('profiles').select('*').in('id', targetIds)
+      : { data: [] as Profile[] };
+
+    setPrivacyMode((settings?.mode as PrivacyMode) || 'allow_all');
+    setPrivacyList((entries || []).map(e => ({ ...e, profile: profiles?.find(p => p.id === e.target_id) })));
+  }
+
+  // Like AIM, blocking someone while everyone is allowed switches to
+  // "block the users below" so the block actually takes effect
+  async function blockUser(targetId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('privacy_list')
+      .upsert({ user_id: user.id, target_id: targetId, list: 'deny' }, { onConflict: 'user_id,target_id,list', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Failed to block user:', error);
+      return false;
+    }
+
+    if (privacyMode === 'allow_all') {
+      const { error: modeError } = await supabase
+        .from('privacy_settings')
+        .upsert({ user_id: user.id, mode: 'deny_list', updated_at: new Date().toISOString() });
+      if (modeError) {
+        console.error('Failed to update privacy mode:', modeError);
+      }
+    }
+
+    // A pending buddy request from them goes away with the block
+    await supabase
+      .from('friends')
+      .delete()
+      .eq('user_id', targetId)
+      .eq('friend_id', user.id)
+      .eq('status', 'pending');
+
+    await loadPrivacy();
+    loadFriends();
+    return true;
+  }
+
+  async function unblockUser(targetId: string) {
+    const { error } = await supabase
+      .from('privacy_list')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('target_id', targetId)
+      .eq('list', 'deny');
+
+    if (error) {
+      console.error('Failed to unblock user:', error);
+      return;
+    }
+    loadPrivacy();
+  }
+
+  async function updatePreferences(updates: Partial<Profile>) {
+    const { error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Failed to update preferences:', error);
+      return;
+    }
+
     if (profile) {
-      setProfile({ ...profile, ...updateData });
+      setProfile({ ...profile, ...updates });
     }
   }
 
@@ -1341,10 +3022,50 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
     }
   }
 
+  const buddySort: BuddySort = profile?.buddy_list_sort || 'manual';
+  const buddyPositions = new Map(groupMembers.map(m => [m.buddy_id, m.position]));
+  const isOnlineBuddy = (friend: Friend) => friend.profile?.status === 'online' || friend.profile?.status === 'away';
+
+  // Placements pointing at a group that no longer exists fall back to "Buddies"
+  const groupOf = (friend: Friend): string | null => {
+    const groupId = groupMembers.find(m => m.buddy_id === friend.profile?.id)?.group_id ?? null;
+    return groupId && buddyGroups.some(g => g.id === groupId) ? groupId : null;
+  };
+
+  function friendsInGroup(groupId: string | null, sort: BuddySort = buddySort): Friend[] {
+    return sortBuddies(friends.filter(f => groupOf(f) === groupId), sort, buddyPositions, aliases);
+  }
+
+  // groupId is where dropping onto this buddy puts the dragged one; omitted in Offline
+  const renderFriend = (friend: Friend, groupId?: string | null) => {
+    const buddyId = friend.profile?.id;
+    return (
+      <FriendItem
+        key={friend.id}
+        friend={friend}
+        displayName={aliasedName(friend.profile, aliases)}
+        onMessage={() => {
+          if (friend.profile?.status === 'away') {
+            setViewingProfileId(friend.profile.id);
+          } else if (friend.profile) {
+            startDirectMessage(friend.profile.id);
+          }
+        }}
+        getStatusColor={getStatusColor}
+        disabled={false}
+        recentlySignedOn={!!buddyId && recentlySignedOn.has(buddyId)}
+        now={now}
+        conversation={buddyId ? getDirectConversation(buddyId) : undefined}
+        onDropBuddy={groupId !== undefined && buddyId ? (droppedId) => moveBuddy(droppedId, groupId, buddyId) : undefined}
+      />
+    );
+  };
+
   const getStatusColor = (status: Status | undefined) => {
     switch (status) {
       case 'online': return 'bg-green-500';
       case 'away': return 'bg-yellow-500';
+      case 'invisible': return 'bg-gray-300';
       default: return 'bg-gray-500';
     }
   };
@@ -1364,6 +3085,42 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
             </button>
             {showMyAimMenu && (
               <div className="absolute top-full left-0 bg-win-gray win-raised z-50 shadow-lg min-w-[140px]">
+                <button
+                  onClick={() => { setShowPreferences(true); setShowMyAimMenu(false); }}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+                >
+                  Preferences...
+                </button>
+                <button
+                  onClick={() => { window.electronAPI?.openSearchWindow(); setShowMyAimMenu(false); }}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+                >
+                  Search Messages...
+                </button>
+                <button
+                  onClick={() => { setShowImportLogs(true); setShowMyAimMenu(false); }}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+                >
+                  Import Chat Logs...
+                </button>
+                <button
+                  onClick={() => { setBuddyPounceDialog({ buddyId: null }); setShowMyAimMenu(false); }}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+                >
+                  Buddy Pounce...
+                </button>
+                <button
+                  onClick={() => { setShowManageGroups(true); setShowMyAimMenu(false); }}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+                >
+                  Buddy Groups...
+                </button>
+                <button
+                  onClick={() => { setShowPrivacy(true); setShowMyAimMenu(false); }}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+                >
+                  Privacy...
+                </button>
                 <button
                   onClick={() => { onLogout(); setShowMyAimMenu(false); }}
                   className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
@@ -1410,7 +3167,9 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
             )}
           </div>
           <div className="flex-1 min-w-0">
-            <div className="text-sm font-bold text-gray-800 truncate">{profile?.screen_name}</div>
+            <div className="text-sm font-bold text-gray-800 truncate">
+              {profile?.screen_name} <WarningBadge person={profile} now={now} />
+            </div>
             <select
               value={profile?.status || 'online'}
               onChange={(e) => handleStatusChange(e.target.value as Status)}
@@ -1418,7 +3177,7 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
             >
               <option value="online">Online</option>
               <option value="away">Away</option>
-              <option value="offline">Invisible</option>
+              <option value="invisible">Invisible</option>
             </select>
           </div>
         </div>
@@ -1449,20 +3208,21 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                     <div className="mb-1">
                       <div className="text-xs font-bold text-gray-600 px-3 py-0.5 bg-win-gray-light border-b border-gray-300">Friend Requests</div>
                       {pendingRequests.map((request) => (
-                        <FriendRequestItem key={request.id} request={request} onUpdate={loadFriends} />
+                        <FriendRequestItem key={request.id} request={request} onUpdate={loadFriends} onBlock={() => blockUser(request.user_id)} />
                       ))}
                     </div>
                   )}
 
-                  {/* Buddies List - Online */}
+                  {/* Buddies List - Online (the built-in group) */}
                   <div>
-                    <button
-                      onClick={() => setBuddiesCollapsed(!buddiesCollapsed)}
-                      className="flex items-center gap-1 text-sm font-bold text-gray-700 px-2 py-0.5 hover:bg-gray-100 w-full text-left bg-win-gray-light border-b border-gray-200"
-                    >
-                      <span className="text-xs">{buddiesCollapsed ? '▶' : '▼'}</span>
-                      Buddies ({friends.filter(f => f.profile?.status === 'online' || f.profile?.status === 'away').length + (profile?.status === 'online' || profile?.status === 'away' ? 1 : 0)}/{friends.length + 1})
-                    </button>
+                    <BuddyGroupHeader
+                      name="Buddies"
+                      online={friendsInGroup(null).filter(isOnlineBuddy).length + (profile?.status === 'online' || profile?.status === 'away' ? 1 : 0)}
+                      total={friendsInGroup(null).length + 1}
+                      collapsed={buddiesCollapsed}
+                      onToggle={() => setBuddiesCollapsed(!buddiesCollapsed)}
+                      onDropBuddy={(buddyId) => moveBuddy(buddyId, null)}
+                    />
                     {!buddiesCollapsed && (
                       <>
                         {/* Self - current user */}
@@ -1477,25 +3237,7 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                             </span>
                           </button>
                         )}
-                        {friends
-                          .filter(f => f.profile?.status === 'online' || f.profile?.status === 'away')
-                          .map((friend) => (
-                            <FriendItem
-                              key={friend.id}
-                              friend={friend}
-                              onMessage={() => {
-                              if (friend.profile?.status === 'away') {
-                                setViewingProfileId(friend.profile.id);
-                              } else if (friend.profile) {
-                                startDirectMessage(friend.profile.id);
-                              }
-                            }}
-                              getStatusColor={getStatusColor}
-                              disabled={false}
-                              recentlySignedOn={!!friend.profile && recentlySignedOn.has(friend.profile.id)}
-                            />
-                          ))
-                        }
+                        {friendsInGroup(null).filter(isOnlineBuddy).map(friend => renderFriend(friend, null))}
                         {friends.length === 0 && !(profile?.status === 'online' || profile?.status === 'away') && (
                           <p className="text-gray-400 text-xs px-5 py-1">No buddies online</p>
                         )}
@@ -1503,6 +3245,24 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                     )}
                   </div>
 
+                  {/* Custom buddy groups */}
+                  {buddyGroups.map(group => {
+                    const members = friendsInGroup(group.id);
+                    return (
+                      <div key={group.id}>
+                        <BuddyGroupHeader
+                          name={group.name}
+                          online={members.filter(isOnlineBuddy).length}
+                          total={members.length}
+                          collapsed={group.collapsed}
+                          onToggle={() => toggleGroupCollapsed(group)}
+                          onDropBuddy={(buddyId) => moveBuddy(buddyId, group.id)}
+                        />
+                        {!group.collapsed && members.filter(isOnlineBuddy).map(friend => renderFriend(friend, group.id))}
+                      </div>
+                    );
+                  })}
+
                   {/* Groups List */}
                   <div>
                     <button
@@ -1526,9 +3286,17 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                               title={convo.participants?.map(p => p.screen_name).join(', ') || ''}
                             >
                               <span className="text-xs">👥</span>
-                              <span className="text-sm text-gray-800">
-                                {convo.name || 'Group Chat'}
+                              <span className="flex-1 min-w-0">
+                                <span className={`block text-sm truncate ${convo.unread_count ? 'font-bold text-gray-900' : 'text-gray-800'}`}>
+                                  {convo.name || 'Group Chat'}
+                                </span>
+                                {convo.last_message && (
+                                  <span className="block text-[10px] text-gray-500 truncate">
+                                    {messageSnippet(convo.last_message)} · {formatPreviewTime(convo.last_message.created_at)}
+                                  </span>
+                                )}
                               </span>
+                              <UnreadBadge count={convo.unread_count} />
                             </button>
                           ))
                       )
@@ -1542,12 +3310,12 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                       className="flex items-center gap-1 text-sm font-bold text-gray-700 px-2 py-0.5 hover:bg-gray-100 w-full text-left bg-win-gray-light border-b border-gray-200"
                     >
                       <span className="text-xs">{offlineCollapsed ? '▶' : '▼'}</span>
-                      Offline ({friends.filter(f => f.profile?.status === 'offline' || !f.profile?.status).length + (profile?.status === 'offline' || !profile?.status ? 1 : 0)}/{friends.length + 1})
+                      Offline ({friends.filter(f => f.profile?.status === 'offline' || !f.profile?.status).length + (profile?.status === 'offline' || profile?.status === 'invisible' || !profile?.status ? 1 : 0)}/{friends.length + 1})
                     </button>
                     {!offlineCollapsed && (
                       <>
-                        {/* Self - current user if offline */}
-                        {profile && (profile.status === 'offline' || !profile.status) && (
+                        {/* Self - current user if offline or invisible */}
+                        {profile && (profile.status === 'offline' || profile.status === 'invisible' || !profile.status) && (
                           <button
                             onClick={() => startDirectMessage(user.id)}
                             className="w-full py-0.5 px-5 hover:bg-[#316AC5] hover:text-white transition-colors text-left flex items-center gap-1.5"
@@ -1556,27 +3324,12 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                             <span className="text-sm text-gray-400">
                               {profile.screen_name}
                             </span>
+                            {profile.status === 'invisible' && (
+                              <span className="text-xs text-gray-400 italic">(invisible)</span>
+                            )}
                           </button>
                         )}
-                        {friends
-                          .filter(f => f.profile?.status === 'offline' || !f.profile?.status)
-                          .map((friend) => (
-                            <FriendItem
-                              key={friend.id}
-                              friend={friend}
-                              onMessage={() => {
-                              if (friend.profile?.status === 'away') {
-                                setViewingProfileId(friend.profile.id);
-                              } else if (friend.profile) {
-                                startDirectMessage(friend.profile.id);
-                              }
-                            }}
-                              getStatusColor={getStatusColor}
-                              disabled={false}
-                              recentlySignedOn={!!friend.profile && recentlySignedOn.has(friend.profile.id)}
-                            />
-                          ))
-                        }
+                        {sortBuddies(friends.filter(f => !isOnlineBuddy(f)), buddySort, buddyPositions, aliases).map(friend => renderFriend(friend))}
                       </>
                     )}
                   </div>
@@ -1607,9 +3360,11 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
       {/* Modals */}
       {showAddFriend && (
         <AddFriendModal
+          key={addFriendScreenName}
           currentUserId={user.id}
-          onClose={() => setShowAddFriend(false)}
-          onSuccess={() => { setShowAddFriend(false); loadFriends(); }}
+          initialScreenName={addFriendScreenName}
+          onClose={() => { setShowAddFriend(false); setAddFriendScreenName(''); }}
+          onSuccess={() => { setShowAddFriend(false); setAddFriendScreenName(''); loadFriends(); }}
         />
       )}
 
@@ -1622,32 +3377,107 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
         />
       )}
 
-      {showAwayMessage && (
-        <AwayMessageModal
-          currentMessage={profile?.away_message || ''}
-          onClose={() => setShowAwayMessage(false)}
-          onSave={(message) => {
-            updateStatus('away', message);
-            setShowAwayMessage(false);
-          }}
+      {showImportLogs && (
+        <ImportLogsModal
+          currentUserId={user.id}
+          profile={profile}
+          onClose={() => setShowImportLogs(false)}
+          onImported={loadConversations}
         />
       )}
 
-      {viewingProfile && (
-        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
-          <div className="bg-win-gray win-raised w-full max-w-xs">
-            <div className="win-titlebar justify-between">
-              <span className="text-xs">Buddy Info</span>
-              <button onClick={() => setViewingProfileId(null)} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
-            </div>
-            <div className="p-4 text-center">
-              <div className="inline-flex items-center justify-center w-16 h-16 rounded bg-aim-yellow text-3xl mb-2" style={{ border: '2px solid #808080' }}>
-                {viewingProfile.avatar_url || '😎'}
-              </div>
-              <div className="text-sm font-bold text-gray-800 mb-1">{viewingProfile.screen_name}</div>
-              <div className="flex items-center justify-center gap-1 mb-3">
+      {buddyPounceDialog && (
+        <BuddyPounceModal
+          currentUserId={user.id}
+          aliases={aliases}
+          buddies={friends.map(f => f.profile).filter((p): p is Profile => !!p)}
+          pounces={pounces}
+          initialBuddyId={buddyPounceDialog.buddyId}
+          onClose={() => setBuddyPounceDialog(null)}
+          onChanged={loadPounces}
+        />
+      )}
+
+      {showManageGroups && (
+        <BuddyGroupsModal
+          currentUserId={user.id}
+          groups={buddyGroups}
+          onClose={() => setShowManageGroups(false)}
+          onChanged={loadBuddyGroups}
+        />
+      )}
+
+      {warnTarget && (
+        <WarnModal
+          target={warnTarget}
+          displayName={aliasedName(warnTarget, aliases)}
+          onClose={() => setWarnTarget(null)}
+        />
+      )}
+
+      {showPrivacy && (
+        <PrivacyModal
+          currentUserId={user.id}
+          mode={privacyMode}
+          entries={privacyList}
+          onBlock={blockUser}
+          onClose={() => setShowPrivacy(false)}
+          onChanged={loadPrivacy}
+        />
+      )}
+
+      {showPreferences && (
+        <PreferencesModal
+          profile={profile}
+          onClose={() => setShowPreferences(false)}
+          onUpdateProfile={updatePreferences}
+          autoAwaySettings={autoAwaySettings}
+          onUpdateAutoAway={updateAutoAwaySettings}
+          minimizeToTray={minimizeToTray}
+          onUpdateMinimizeToTray={setMinimizeToTray}
+          chatWindowMode={chatWindowMode}
+          onUpdateChatWindowMode={setChatWindowMode}
+          notificationSettings={notificationSettings}
+          onUpdateNotifications={updateNotificationSettings}
+        />
+      )}
+
+      {showAwayMessage && (
+        <AwayMessageModal
+          currentMessage={profile?.away_message || ''}
+          onClose={() => setShowAwayMessage(false)}
+          onSave={(message) => {
+            updateStatus('away', message);
+            setShowAwayMessage(false);
+          }}
+        />
+      )}
+
+      {viewingProfile && (
+        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+          <div className="bg-win-gray win-raised w-full max-w-xs">
+            <div className="win-titlebar justify-between">
+              <span className="text-xs">Buddy Info</span>
+              <button onClick={() => setViewingProfileId(null)} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
+            </div>
+            <div className="p-4 text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded bg-aim-yellow text-3xl mb-2" style={{ border: '2px solid #808080' }}>
+                {viewingProfile.avatar_url || '😎'}
+              </div>
+              <div className="mb-1">
+                <div className="text-sm font-bold text-gray-800">
+                  {aliasedName(viewingProfile, aliases)} <WarningBadge person={viewingProfile} now={now} />
+                </div>
+                {aliases.get(viewingProfile.id)?.alias && (
+                  <div className="text-xs text-gray-500">{viewingProfile.screen_name}</div>
+                )}
+              </div>
+              <div className="flex items-center justify-center gap-1 mb-3">
                 <span className={`w-2 h-2 rounded-full ${getStatusColor(viewingProfile.status as Status)}`}></span>
                 <span className="text-xs text-gray-500 capitalize">{viewingProfile.status || 'offline'}</span>
+                {viewingProfile.idle_since && viewingProfile.status !== 'offline' && (
+                  <span className="text-xs text-gray-500">· idle {formatIdleTime(viewingProfile.idle_since, now)}</span>
+                )}
               </div>
               {viewingProfile.away_message && (
                 <div className="win-sunken bg-white p-2 text-xs text-left mb-3">
@@ -1655,6 +3485,31 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                   <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(processAwayMessageSpecialChars(viewingProfile.away_message, profile?.screen_name)) }} />
                 </div>
               )}
+              <BuddyAliasEditor
+                key={viewingProfile.id}
+                currentUserId={user.id}
+                buddyId={viewingProfile.id}
+                saved={aliases.get(viewingProfile.id)}
+              />
+              <label className="flex items-center gap-2 text-xs text-left mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={revealedTo.has(viewingProfile.id)}
+                  onChange={(e) => toggleReveal(viewingProfile.id, e.target.checked)}
+                />
+                Appear online to this buddy while I'm invisible
+              </label>
+              <label className="flex items-center gap-2 text-xs text-left mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={blockedIds.has(viewingProfile.id)}
+                  onChange={(e) => e.target.checked ? blockUser(viewingProfile.id) : unblockUser(viewingProfile.id)}
+                />
+                Block this buddy from contacting me
+              </label>
+              {blockedIds.has(viewingProfile.id) && privacyMode === 'allow_all' && (
+                <p className="text-[10px] text-gray-500 text-left -mt-2 mb-3">Blocks don't apply while all users are allowed (see My AIM &gt; Privacy).</p>
+              )}
               <div className="flex gap-2">
                 <button
                   onClick={() => {
@@ -1665,6 +3520,24 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
                 >
                   Send Message
                 </button>
+                <button
+                  onClick={() => {
+                    setBuddyPounceDialog({ buddyId: viewingProfile.id });
+                    setViewingProfileId(null);
+                  }}
+                  className="win-button flex-1 text-xs py-1"
+                >
+                  Pounce...
+                </button>
+                <button
+                  onClick={() => {
+                    setWarnTarget(viewingProfile);
+                    setViewingProfileId(null);
+                  }}
+                  className="win-button flex-1 text-xs py-1"
+                >
+                  Warn...
+                </button>
                 <button
                   onClick={() => setViewingProfileId(null)}
                   className="win-button flex-1 text-xs py-1"
@@ -1680,7 +3553,117 @@ function BuddyList({ user, profile, onLogout, setProfile }: {
   );
 }
 
-function FriendRequestItem({ request, onUpdate }: { request: Friend; onUpdate: () => void }) {
+// Private alias and note in Buddy Info; the buddy never sees either
+function BuddyAliasEditor({ currentUserId, buddyId, saved }: {
+  currentUserId: string;
+  buddyId: string;
+  saved?: BuddyAlias;
+}) {
+  const [alias, setAlias] = useState(saved?.alias || '');
+  const [note, setNote] = useState(saved?.note || '');
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState('');
+  const dirty = alias.trim() !== (saved?.alias || '') || note.trim() !== (saved?.note || '');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setStatus('');
+    const trimmedAlias = alias.trim();
+    const trimmedNote = note.trim();
+    const { error } = trimmedAlias || trimmedNote
+      ? await supabase.from('buddy_aliases').upsert({
+        user_id: currentUserId,
+        buddy_id: buddyId,
+        alias: trimmedAlias || null,
+        note: trimmedNote || null,
+        updated_at: new Date().toISOString(),
+      })
+      : await supabase.from('buddy_aliases').delete().eq('user_id', currentUserId).eq('buddy_id', buddyId);
+    setSaving(false);
+
+    if (error) {
+      console.error('Failed to save buddy alias:', error);
+      setStatus('Could not save.');
+      return;
+    }
+    setStatus('Saved.');
+  };
+
+  return (
+    <div className="text-left text-xs mb-3 space-y-1">
+      <label className="block text-gray-700">
+        Alias (only you see this):
+        <input
+          type="text"
+          value={alias}
+          onChange={(e) => setAlias(e.target.value)}
+          maxLength={48}
+          disabled={saving}
+          className="win-input w-full py-0.5 text-xs mt-0.5"
+        />
+      </label>
+      <label className="block text-gray-700">
+        Note:
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={2000}
+          rows={3}
+          disabled={saving}
+          className="win-input w-full py-0.5 text-xs mt-0.5 resize-none"
+        />
+      </label>
+      <div className="flex items-center justify-end gap-2">
+        {status && <span className="text-gray-500">{status}</span>}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="win-button px-2 py-0.5 text-xs disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Collapsible group title with online/total counts; buddies can be dropped on it
+function BuddyGroupHeader({ name, online, total, collapsed, onToggle, onDropBuddy }: {
+  name: string;
+  online: number;
+  total: number;
+  collapsed: boolean;
+  onToggle: () => void;
+  onDropBuddy: (buddyId: string) => void;
+}) {
+  const [dragOver, setDragOver] = useState(false);
+
+  return (
+    <button
+      onClick={onToggle}
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes(BUDDY_DRAG_TYPE)) {
+          e.preventDefault();
+          setDragOver(true);
+        }
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragOver(false);
+        const buddyId = e.dataTransfer.getData(BUDDY_DRAG_TYPE);
+        if (buddyId) onDropBuddy(buddyId);
+      }}
+      className={`flex items-center gap-1 text-sm font-bold text-gray-700 px-2 py-0.5 hover:bg-gray-100 w-full text-left border-b border-gray-200 ${dragOver ? 'bg-[#316AC5]/20' : 'bg-win-gray-light'}`}
+    >
+      <span className="text-xs">{collapsed ? '▶' : '▼'}</span>
+      {name} ({online}/{total})
+    </button>
+  );
+}
+
+function FriendRequestItem({ request, onUpdate, onBlock }: { request: Friend; onUpdate: () => void; onBlock: () => void }) {
   const handleAccept = async () => {
     await supabase
       .from('friends')
@@ -1706,35 +3689,89 @@ function FriendRequestItem({ request, onUpdate }: { request: Friend; onUpdate: (
       </div>
       <button onClick={handleAccept} className="win-button text-xs px-2 py-0.5 text-green-700">Accept</button>
       <button onClick={handleDecline} className="win-button text-xs px-2 py-0.5 text-red-700">Deny</button>
+      <button onClick={onBlock} className="win-button text-xs px-2 py-0.5" title="Deny and block this user">Block</button>
     </div>
   );
 }
 
-function FriendItem({ friend, onMessage, getStatusColor, disabled, recentlySignedOn }: {
+// "(15%)" after a screen name while the person's warning level is above zero
+function WarningBadge({ person, now }: {
+  person: Pick<Profile, 'warning_level' | 'warning_updated_at'> | null | undefined;
+  now: number;
+}) {
+  const level = currentWarningLevel(person?.warning_level, person?.warning_updated_at, now);
+  if (!level) return null;
+  return <span className="text-xs text-red-600" title="Warning level">({level}%)</span>;
+}
+
+function UnreadBadge({ count }: { count?: number }) {
+  if (!count) return null;
+  return (
+    <span className="ml-auto shrink-0 min-w-[16px] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold leading-4 text-center">
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+}
+
+function FriendItem({ friend, displayName, onMessage, getStatusColor, disabled, recentlySignedOn, conversation, now, onDropBuddy }: {
   friend: Friend;
+  displayName: string; // Alias or screen name
   onMessage: () => void;
   getStatusColor: (status: Status | undefined) => string;
   disabled?: boolean;
   recentlySignedOn?: boolean;
+  conversation?: Conversation;
+  now: number;
+  onDropBuddy?: (buddyId: string) => void; // A buddy was dropped onto this one
 }) {
+  const [dragOver, setDragOver] = useState(false);
   const isAway = friend.profile?.status === 'away';
 
   const isOffline = friend.profile?.status === 'offline' || !friend.profile?.status;
+  const idleSince = !isOffline ? friend.profile?.idle_since : null;
   const statusIcon = isOffline ? '👤' : isAway ? '📝' : '👤';
+  const lastMessage = conversation?.last_message;
 
   return (
     <button
       onClick={onMessage}
       disabled={disabled}
-      className={`w-full py-0.5 px-5 hover:bg-[#316AC5] hover:text-white transition-colors text-left disabled:opacity-50 disabled:cursor-wait flex items-center gap-1.5 ${recentlySignedOn ? 'bg-aim-yellow/20' : ''}`}
+      title={lastMessage ? `${messageSnippet(lastMessage)} (${formatPreviewTime(lastMessage.created_at)})` : undefined}
+      draggable={!!friend.profile}
+      onDragStart={(e) => {
+        if (!friend.profile) return;
+        e.dataTransfer.setData(BUDDY_DRAG_TYPE, friend.profile.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragOver={(e) => {
+        if (onDropBuddy && e.dataTransfer.types.includes(BUDDY_DRAG_TYPE)) {
+          e.preventDefault();
+          setDragOver(true);
+        }
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        setDragOver(false);
+        const buddyId = e.dataTransfer.getData(BUDDY_DRAG_TYPE);
+        if (onDropBuddy && buddyId) {
+          e.preventDefault();
+          onDropBuddy(buddyId);
+        }
+      }}
+      className={`w-full py-0.5 px-5 hover:bg-[#316AC5] hover:text-white transition-colors text-left disabled:opacity-50 disabled:cursor-wait flex items-center gap-1.5 border-t-2 ${dragOver ? 'border-[#316AC5]' : 'border-transparent'} ${recentlySignedOn ? 'bg-aim-yellow/20' : ''}`}
     >
       <span className={`text-xs ${isOffline ? 'opacity-40' : ''}`}>{statusIcon}</span>
-      <span className={`text-sm ${isOffline ? 'text-gray-400' : isAway ? 'italic text-gray-500' : 'text-gray-800'}`}>
-        {friend.profile?.screen_name}
+      <span className={`text-sm ${isOffline ? 'text-gray-400' : isAway ? 'italic text-gray-500' : 'text-gray-800'} ${conversation?.unread_count ? 'font-bold' : ''}`}>
+        {displayName}
       </span>
+      <WarningBadge person={friend.profile} now={now} />
+      {idleSince && (
+        <span className="text-xs text-gray-500">(idle {formatIdleTime(idleSince, now)})</span>
+      )}
       {recentlySignedOn && (
         <span className="text-xs text-green-600 ml-auto">*</span>
       )}
+      <UnreadBadge count={conversation?.unread_count} />
     </button>
   );
 }
@@ -1791,12 +3828,23 @@ interface AwayMessageEntry {
   timestamp: string;
 }
 
-function ChatArea({ conversation, messages, currentUserId, profile, loadingMessages }: {
+function ChatArea({ conversation, messages, currentUserId, profile, aliases, loadingMessages, hasMoreMessages, loadingOlderMessages, onLoadOlderMessages, receipts = [], unsendWindowSeconds = DEFAULT_UNSEND_WINDOW_SECONDS, reactions = [], replyTargets = {}, onLoadMessagesThrough, focusRequest, onLoadFullHistory }: {
   conversation: Conversation;
   messages: Message[];
   currentUserId: string;
   profile: Profile | null;
+  aliases: BuddyAliases;
   loadingMessages?: boolean;
+  hasMoreMessages?: boolean;
+  loadingOlderMessages?: boolean;
+  onLoadOlderMessages?: () => void;
+  receipts?: ReadReceipt[];
+  unsendWindowSeconds?: number;
+  reactions?: MessageReaction[];
+  replyTargets?: Record<string, Message>;
+  onLoadMessagesThrough?: (messageId: string) => Promise<void>;
+  focusRequest?: { messageId: string; key: number } | null;
+  onLoadFullHistory?: () => Promise<Message[]>;
 }) {
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
@@ -1806,10 +3854,29 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
   const [joiningHangout, setJoiningHangout] = useState(false);
   const [awayMessages, setAwayMessages] = useState<AwayMessageEntry[]>([]);
   const [justCameOnline, setJustCameOnline] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editHistory, setEditHistory] = useState<{ messageId: string; entries: MessageEdit[] } | null>(null);
+  const [reactingMessageId, setReactingMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [showFileMenu, setShowFileMenu] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const fileMenuRef = useRef<HTMLDivElement>(null);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [showWarn, setShowWarn] = useState(false);
+  const [notificationsMuted, setNotificationsMuted] = useState(false);
+  // Quoted message to scroll to once it has been loaded
+  const pendingJumpRef = useRef<string | null>(null);
   const prevStatusRef = useRef<Status | null | undefined>(null);
   const awayMessageCountRef = useRef<Map<string, number>>(new Map());
   const shownInitialAwayRef = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom of the scroll area, captured before older messages are prepended
+  const scrollAnchorRef = useRef<number | null>(null);
+  const hasScrolledInitiallyRef = useRef(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const typingRemovalTimeouts = useRef<Map<string, NodeJS.Timeout>>(new Map());
   const channelRef = useRef<RealtimeChannel | null>(null);
@@ -1820,7 +3887,50 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
     ? conversation.name || 'Group Chat'
     : isSelfChat
       ? profile?.screen_name || 'Me'
-      : otherParticipants[0]?.screen_name || 'Unknown';
+      : aliasedName(otherParticipants[0], aliases);
+
+  useEffect(() => {
+    supabase
+      .from('conversation_participants')
+      .select('notifications_muted')
+      .eq('conversation_id', conversation.id)
+      .eq('user_id', currentUserId)
+      .maybeSingle()
+      .then(({ data }) => setNotificationsMuted(!!data?.notifications_muted));
+  }, [conversation.id, currentUserId]);
+
+  async function toggleNotificationsMuted() {
+    setShowFileMenu(false);
+    const muted = !notificationsMuted;
+    const { error } = await supabase
+      .from('conversation_participants')
+      .update({ notifications_muted: muted })
+      .eq('conversation_id', conversation.id)
+      .eq('user_id', currentUserId);
+    if (error) {
+      console.error('Failed to update notification mute:', error);
+      return;
+    }
+    setNotificationsMuted(muted);
+  }
+
+  // Why the server refused a message, when it's something the user can act on
+  const sendFailureMessage = (error: { code?: string } | null, fallback: string) => {
+    if (isPrivacyRejection(error)) return `${displayName} isn't accepting messages from you.`;
+    if (isRateLimited(error)) {
+      const level = currentWarningLevel(profile?.warning_level, profile?.warning_updated_at);
+      return `You're sending too fast. At a ${level}% warning level you can send one message every ${sendIntervalSeconds(level)} seconds.`;
+    }
+    return fallback;
+  };
+
+  // Imported messages from senders without a profile are stored under the importer's id
+  const isOwnMessage = (message: Message) => message.sender_id === currentUserId && !message.external_sender_name;
+  const senderScreenName = (message: Message) =>
+    message.external_sender_name
+    || (message.sender ? aliasedName(message.sender, aliases) : null)
+    || (message.sender_id === currentUserId ? profile?.screen_name : null)
+    || 'Unknown';
 
   // Show away message immediately when chat window opens if participant is away
   useEffect(() => {
@@ -1869,9 +3979,38 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
     }
   }, [loadingMessages]);
 
+  // Only follow the bottom when a message is appended, not when history is prepended
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, awayMessages, typingUsers, justCameOnline]);
+    messagesEndRef.current?.scrollIntoView({ behavior: hasScrolledInitiallyRef.current ? 'smooth' : 'auto' });
+    hasScrolledInitiallyRef.current = true;
+  }, [lastMessageId, awayMessages, typingUsers, justCameOnline]);
+
+  // Keep the viewport anchored on the same message after older history is prepended
+  useLayoutEffect(() => {
+    if (loadingOlderMessages) return;
+    const container = messagesContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    scrollAnchorRef.current = null;
+    if (container && anchor !== null) {
+      container.scrollTop = container.scrollHeight - anchor;
+    }
+  }, [firstMessageId, loadingOlderMessages]);
+
+  const requestOlderMessages = () => {
+    const container = messagesContainerRef.current;
+    if (!container || !hasMoreMessages || loadingOlderMessages || !onLoadOlderMessages) return;
+    scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+    onLoadOlderMessages();
+  };
+
+  const handleMessagesScroll = () => {
+    if (!hasScrolledInitiallyRef.current) return;
+    if ((messagesContainerRef.current?.scrollTop ?? Infinity) < 40) {
+      requestOlderMessages();
+    }
+  };
 
   // Track status transitions for the other participant (DM only)
   const otherStatus = !conversation.is_group && otherParticipants[0]?.status;
@@ -2071,14 +4210,18 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
     const { error } = await supabase.from('messages').insert({
       conversation_id: conversation.id,
       sender_id: currentUserId,
-      content: newMessage.trim()
+      content: newMessage.trim(),
+      reply_to_id: replyingTo?.id ?? null
     });
 
     if (error) {
       console.error('Failed to send message:', error);
+      setSendError(sendFailureMessage(error, 'Your message could not be sent.'));
       setSending(false);
       return;
     }
+    setSendError(null);
+    setReplyingTo(null);
 
     // After sending, check if any participants are away and broadcast their away message
     // Use a timestamp slightly in the future so it sorts after the sent message
@@ -2141,6 +4284,382 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
     setSending(false);
   };
 
+  async function sendAttachments(files: File[]) {
+    setAttachmentError(null);
+    const replyToId = replyingTo?.id ?? null;
+    let sentAny = false;
+
+    for (const file of files) {
+      const problem = validateAttachment(file);
+      if (problem) {
+        setAttachmentError(problem);
+        continue;
+      }
+
+      setUploadingCount(c => c + 1);
+      let uploadedPath: string | null = null;
+      try {
+        const attachment = await uploadAttachment(conversation.id, file);
+        uploadedPath = attachment.path;
+        const { error } = await supabase.from('messages').insert({
+          conversation_id: conversation.id,
+          sender_id: currentUserId,
+          content: '',
+          reply_to_id: replyToId,
+          attachment_path: attachment.path,
+          attachment_name: attachment.name,
+          attachment_size: attachment.size,
+          attachment_type: attachment.type,
+        });
+        if (error) throw error;
+        sentAny = true;
+      } catch (e) {
+        console.error('Failed to send file:', e);
+        setAttachmentError(sendFailureMessage(e as { code?: string }, `${file.name} couldn't be sent.`));
+        // Don't leave an orphaned upload behind if the message insert failed
+        if (uploadedPath) removeAttachment(uploadedPath);
+      } finally {
+        setUploadingCount(c => c - 1);
+      }
+    }
+
+    if (sentAny) setReplyingTo(null);
+  }
+
+  async function saveMessageEdit(message: Message, html: string) {
+    setEditingMessageId(null);
+    if (html === message.content) return;
+    // The realtime UPDATE reconciles every open window, including this one
+    const { error } = await supabase
+      .from('messages')
+      .update({ content: html })
+      .eq('id', message.id);
+    if (error) {
+      console.error('Failed to edit message:', error);
+    }
+  }
+
+  async function unsendMessage(message: Message) {
+    if (!window.confirm('Unsend this message for everyone?')) return;
+    const { error } = await supabase
+      .from('messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', message.id);
+    if (error) {
+      console.error('Failed to unsend message:', error);
+      return;
+    }
+    if (message.attachment_path) {
+      removeAttachment(message.attachment_path);
+    }
+  }
+
+  async function toggleEditHistory(messageId: string) {
+    if (editHistory?.messageId === messageId) {
+      setEditHistory(null);
+      return;
+    }
+    const { data } = await supabase
+      .from('message_edits')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: true });
+    setEditHistory({ messageId, entries: data || [] });
+  }
+
+  async function toggleReaction(message: Message, emoji: string) {
+    setReactingMessageId(null);
+    const existing = reactions.find(r =>
+      r.message_id === message.id && r.user_id === currentUserId && r.emoji === emoji
+    );
+    const { error } = existing
+      ? await supabase.from('message_reactions').delete().eq('id', existing.id)
+      : await supabase.from('message_reactions').insert({
+        message_id: message.id,
+        conversation_id: conversation.id,
+        user_id: currentUserId,
+        emoji,
+      });
+    if (error) {
+      console.error('Failed to update reaction:', error);
+    }
+  }
+
+  const reactionsByMessage = new Map<string, MessageReaction[]>();
+  reactions.forEach(r => {
+    reactionsByMessage.set(r.message_id, [...(reactionsByMessage.get(r.message_id) || []), r]);
+  });
+
+  const renderReactionBar = (message: Message) => {
+    const messageReactions = reactionsByMessage.get(message.id);
+    if (!messageReactions || message.deleted_at) return null;
+
+    const byEmoji = new Map<string, MessageReaction[]>();
+    messageReactions.forEach(r => byEmoji.set(r.emoji, [...(byEmoji.get(r.emoji) || []), r]));
+
+    return (
+      <div className="flex flex-wrap gap-1 ml-4 mt-0.5">
+        {[...byEmoji].map(([emoji, emojiReactions]) => {
+          const reactedByMe = emojiReactions.some(r => r.user_id === currentUserId);
+          const names = emojiReactions.map(r =>
+            r.user_id === currentUserId
+              ? 'You'
+              : aliasedName(conversation.participants?.find(p => p.id === r.user_id), aliases)
+          );
+          return (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => toggleReaction(message, emoji)}
+              title={`Reacted by ${names.join(', ')}`}
+              className={`px-1 text-xs border rounded leading-4 ${reactedByMe ? 'bg-aim-yellow/40 border-gray-500' : 'bg-win-gray-light border-gray-300 hover:bg-gray-100'}`}
+            >
+              {emoji} {emojiReactions.length}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Scroll a message into view and flash it
+  const scrollToMessage = (messageId: string) => {
+    const el = messagesContainerRef.current?.querySelector(`[data-message-id="${messageId}"]`);
+    if (!el) return false;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(current => current === messageId ? null : current), 2000);
+    return true;
+  };
+
+  const jumpToMessage = async (messageId: string) => {
+    if (scrollToMessage(messageId)) return;
+    pendingJumpRef.current = messageId;
+    await onLoadMessagesThrough?.(messageId);
+  };
+
+  // Finish a jump once older history containing the quoted message has rendered
+  useEffect(() => {
+    const pending = pendingJumpRef.current;
+    if (pending && scrollToMessage(pending)) {
+      pendingJumpRef.current = null;
+    }
+  }, [firstMessageId]);
+
+  // Close File menu when clicking outside
+  useEffect(() => {
+    if (!showFileMenu) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (fileMenuRef.current && !fileMenuRef.current.contains(e.target as Node)) {
+        setShowFileMenu(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showFileMenu]);
+
+  async function saveConversation(format: ChatLogFormat) {
+    setShowFileMenu(false);
+    if (!onLoadFullHistory || !window.electronAPI) return;
+    setSaveStatus('Saving...');
+
+    try {
+      const history = await onLoadFullHistory();
+      const entries: ChatLogEntry[] = [
+        ...history.map(m => {
+          const isOwn = isOwnMessage(m);
+          const html = m.deleted_at ? '' : sanitizeHtml(m.content);
+          return {
+            type: 'message' as const,
+            id: m.id,
+            senderId: m.sender_id,
+            senderName: senderScreenName(m),
+            timestamp: m.created_at,
+            html,
+            text: htmlToSnippet(html, Infinity),
+            isOwn,
+            editedAt: m.updated_at ?? null,
+            unsent: !!m.deleted_at,
+            replyToId: m.reply_to_id ?? null,
+            attachment: m.attachment_name
+              ? { name: m.attachment_name, size: m.attachment_size ?? null, type: m.attachment_type ?? null }
+              : null,
+          };
+        }),
+        // Away replies are never stored, so only the ones seen in this window can be included
+        ...awayMessages.map(a => {
+          const html = sanitizeHtml(processAwayMessageSpecialChars(a.content, profile?.screen_name));
+          return {
+            type: 'away' as const,
+            id: a.id,
+            senderId: a.senderId,
+            senderName: a.senderName,
+            timestamp: a.timestamp,
+            html,
+            text: htmlToSnippet(html, Infinity),
+            isOwn: a.senderId === currentUserId,
+          };
+        }),
+      ].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+      const contents = formatChatLog({
+        title: conversation.is_group ? displayName : `Instant Message with ${displayName}`,
+        participants: (conversation.participants || []).map(p => p.screen_name),
+        exportedAt: new Date().toISOString(),
+        entries,
+      }, format);
+      const defaultFileName = `${displayName} ${new Date().toISOString().slice(0, 10)}`.replace(/[\\/:*?"<>|]+/g, '_');
+      const result = await window.electronAPI.saveConversation(format, defaultFileName, contents);
+      setSaveStatus(result.saved ? 'Conversation saved' : null);
+    } catch (e) {
+      console.error('Failed to save conversation:', e);
+      setSaveStatus("Couldn't save conversation");
+    }
+  }
+
+  // Clear the save confirmation after a few seconds
+  useEffect(() => {
+    if (!saveStatus || saveStatus === 'Saving...') return;
+    const timeout = setTimeout(() => setSaveStatus(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [saveStatus]);
+
+  // Jump to a message requested from outside this window (search results)
+  useEffect(() => {
+    if (!focusRequest || loadingMessages) return;
+    jumpToMessage(focusRequest.messageId);
+  }, [focusRequest, loadingMessages]);
+
+  const renderReplyQuote = (message: Message) => {
+    if (!message.reply_to_id) return null;
+    const quoted = messages.find(m => m.id === message.reply_to_id) || replyTargets[message.reply_to_id];
+    const quotedName = quoted
+      ? senderScreenName(quoted)
+      : null;
+    return (
+      <button
+        type="button"
+        onClick={() => jumpToMessage(message.reply_to_id as string)}
+        className="block max-w-full truncate text-left ml-2 pl-1.5 border-l-2 border-gray-400 text-xs text-gray-500 hover:text-gray-800"
+        title="Go to quoted message"
+      >
+        {!quoted
+          ? 'Quoted message'
+          : quoted.deleted_at
+            ? <span className="italic">{quotedName}: (message unsent)</span>
+            : <><span className="font-bold">{quotedName}:</span> {messageSnippet(quoted, 80)}</>}
+      </button>
+    );
+  };
+
+  const canUnsend = (message: Message) =>
+    Date.now() - new Date(message.created_at).getTime() < unsendWindowSeconds * 1000;
+
+  const renderMessageBody = (message: Message) => {
+    if (message.deleted_at) {
+      return <span className="italic text-gray-400 text-sm">(message unsent)</span>;
+    }
+    if (editingMessageId === message.id) {
+      return (
+        <InlineMessageEditor
+          initialHtml={sanitizeHtml(message.content)}
+          onSave={(html) => saveMessageEdit(message, html)}
+          onCancel={() => setEditingMessageId(null)}
+        />
+      );
+    }
+    return (
+      <>
+        {message.attachment_path && <AttachmentView message={message} />}
+        <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(message.content) }} />
+        {message.updated_at && (
+          <button
+            type="button"
+            onClick={() => toggleEditHistory(message.id)}
+            className="ml-1 text-[10px] text-gray-400 hover:underline"
+            title={`Edited ${new Date(message.updated_at).toLocaleString()}`}
+          >
+            (edited)
+          </button>
+        )}
+        {/* Anyone can import a log, so imported history is never presented as sent here */}
+        {message.imported_at && (
+          <span
+            className="ml-1 text-[10px] text-gray-400"
+            title={`Imported from a chat log ${new Date(message.imported_at).toLocaleString()}`}
+          >
+            (imported)
+          </span>
+        )}
+        {editHistory?.messageId === message.id && (
+          <div className="ml-4 my-0.5 border-l-2 border-gray-300 pl-2 text-xs text-gray-500">
+            {editHistory.entries.length === 0 ? (
+              <div>No earlier versions</div>
+            ) : editHistory.entries.map(entry => (
+              <div key={entry.id}>
+                <span className="text-[10px] text-gray-400">{formatPreviewTime(entry.edited_at)}:</span>{' '}
+                <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(entry.previous_content) }} />
+              </div>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderMessageActions = (message: Message, isOwn: boolean) => {
+    if (message.deleted_at || editingMessageId === message.id) return null;
+    return (
+      <span className={`${reactingMessageId === message.id ? 'inline-flex' : 'hidden group-hover:inline-flex'} relative gap-1 ml-2 text-[10px] align-middle`}>
+        <button type="button" onClick={() => setReplyingTo(message)} className="text-[#0000FF] hover:underline">
+          Reply
+        </button>
+        <button
+          type="button"
+          // Keep the picker's outside-click handler from closing it before this toggles
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => setReactingMessageId(reactingMessageId === message.id ? null : message.id)}
+          className="text-[#0000FF] hover:underline"
+        >
+          React
+        </button>
+        {isOwn && !message.attachment_path && (
+          <button type="button" onClick={() => setEditingMessageId(message.id)} className="text-[#0000FF] hover:underline">
+            Edit
+          </button>
+        )}
+        {isOwn && canUnsend(message) && (
+          <button type="button" onClick={() => unsendMessage(message)} className="text-red-700 hover:underline">
+            Unsend
+          </button>
+        )}
+        {reactingMessageId === message.id && (
+          <ReactionPicker
+            onSelect={(emoji) => toggleReaction(message, emoji)}
+            onClose={() => setReactingMessageId(null)}
+          />
+        )}
+      </span>
+    );
+  };
+
+  // Delivery/read state shown under the newest message this user sent
+  const lastOwnMessage = [...messages].reverse().find(m => isOwnMessage(m) && !m.imported_at);
+  const receiptLabel = (() => {
+    if (!lastOwnMessage || isSelfChat || profile?.read_receipts_enabled === false) return null;
+    const sentAt = new Date(lastOwnMessage.created_at).getTime();
+    const otherReceipts = receipts.filter(r => r.user_id !== currentUserId);
+    const seen = otherReceipts.filter(r => r.read_at && new Date(r.read_at).getTime() >= sentAt);
+    const delivered = otherReceipts.filter(r => r.delivered_at && new Date(r.delivered_at).getTime() >= sentAt);
+
+    if (conversation.is_group) {
+      if (seen.length > 0) return `Seen by ${seen.length}`;
+      return delivered.length > 0 ? 'Delivered' : 'Sent';
+    }
+    if (seen.length > 0) return `Seen ${formatPreviewTime(seen[0].read_at as string)}`;
+    return delivered.length > 0 ? 'Delivered' : 'Sent';
+  })();
+
   const handleInputChange = (value: string) => {
     setNewMessage(value);
     if (value.trim()) {
@@ -2150,15 +4669,83 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
 
   return (
     <div className="flex-1 flex flex-col bg-win-gray overflow-hidden">
-      {/* Messages area */}
-      <div className="flex-1 min-h-0 overflow-y-auto bg-white win-sunken m-1 p-2" style={{ fontSize: 'medium' }}>
-        {/* Group chat members header */}
-        {conversation.is_group && conversation.participants && conversation.participants.length > 0 && (
-          <div className="text-center text-xs text-gray-400 mb-2">
-            {conversation.participants.map(p => p.screen_name).join(', ')}
-          </div>
-        )}
-
+      {/* Menu Bar */}
+      <div className="bg-win-gray border-b border-win-border-dark px-1 py-0.5 flex items-center gap-3 text-sm">
+        <div className="relative" ref={fileMenuRef}>
+          <button className="hover:bg-win-gray-light px-1" onClick={() => setShowFileMenu(!showFileMenu)}>
+            <span className="underline">F</span>ile
+          </button>
+          {showFileMenu && (
+            <div className="absolute top-full left-0 bg-win-gray win-raised z-50 shadow-lg min-w-[200px]">
+              {([['html', 'Save as Web Page (HTML)...'], ['txt', 'Save as Text...'], ['json', 'Save as JSON...']] as const).map(([format, label]) => (
+                <button
+                  key={format}
+                  onClick={() => saveConversation(format)}
+                  className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+                >
+                  {label}
+                </button>
+              ))}
+              <div className="border-t border-win-border-dark my-0.5" />
+              <button
+                onClick={toggleNotificationsMuted}
+                className="w-full text-left px-3 py-1 text-sm hover:bg-[#316AC5] hover:text-white"
+              >
+                {notificationsMuted ? '✓ ' : ''}Mute Notifications
+              </button>
+            </div>
+          )}
+        </div>
+        {!conversation.is_group && !isSelfChat && otherParticipants[0] && (
+          <>
+            <button className="hover:bg-win-gray-light px-1" onClick={() => setShowWarn(true)}>
+              <span className="underline">W</span>arn
+            </button>
+            {currentWarningLevel(otherParticipants[0].warning_level, otherParticipants[0].warning_updated_at) > 0 && (
+              <span className="text-xs text-red-600">
+                Warning level: {currentWarningLevel(otherParticipants[0].warning_level, otherParticipants[0].warning_updated_at)}%
+              </span>
+            )}
+          </>
+        )}
+        {saveStatus && <span className="ml-auto text-xs text-gray-600">{saveStatus}</span>}
+      </div>
+
+      {showWarn && otherParticipants[0] && (
+        <WarnModal
+          target={otherParticipants[0]}
+          displayName={displayName}
+          onClose={() => setShowWarn(false)}
+        />
+      )}
+
+      {/* Messages area */}
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+        className="flex-1 min-h-0 overflow-y-auto bg-white win-sunken m-1 p-2"
+        style={{ fontSize: 'medium' }}
+      >
+        {/* Group chat members header */}
+        {conversation.is_group && conversation.participants && conversation.participants.length > 0 && (
+          <div className="text-center text-xs text-gray-400 mb-2">
+            {conversation.participants.map(p => aliasedName(p, aliases)).join(', ')}
+          </div>
+        )}
+
+        {/* Older history: loads automatically when scrolled to the top */}
+        {!loadingMessages && (hasMoreMessages || loadingOlderMessages) && (
+          <div className="text-center text-xs text-gray-400 mb-2">
+            {loadingOlderMessages ? (
+              'Loading older messages...'
+            ) : (
+              <button type="button" onClick={requestOlderMessages} className="text-[#0000FF] hover:underline">
+                Load older messages
+              </button>
+            )}
+          </div>
+        )}
+
         {loadingMessages ? (
           <div className="flex items-center justify-center h-full">
             <p className="text-gray-500 text-xs">Loading messages...</p>
@@ -2211,40 +4798,58 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
                   elements.push(
                     <div key={awayMsg.id}>
                       <span className="font-bold text-[#0000FF]">
-                        {awayMsg.senderName} (away message):
+                        {aliases.get(awayMsg.senderId)?.alias || awayMsg.senderName} (away message):
                       </span>{' '}
                       <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(processedContent) }} />
                     </div>
                   );
                 } else {
                   const message = item.data as Message;
-                  const isOwn = message.sender_id === currentUserId;
-                  const screenName = message.sender?.screen_name || (isOwn ? profile?.screen_name : 'Unknown');
+                  const isOwn = isOwnMessage(message);
+                  const screenName = senderScreenName(message);
+
+                  const highlightClass = highlightedMessageId === message.id ? 'bg-aim-yellow/40' : '';
 
                   if (isSelfChat) {
                     elements.push(
-                      <React.Fragment key={message.id}>
+                      <div key={message.id} data-message-id={message.id} className={`transition-colors ${highlightClass}`}>
+                        {renderReplyQuote(message)}
                         <div>
                           <span className="font-bold text-[#0000FF]">
                             {screenName}:
                           </span>{' '}
-                          <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(message.content) }} />
+                          {message.deleted_at
+                            ? <span className="italic text-gray-400 text-sm">(message unsent)</span>
+                            : <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(message.content) }} />}
                         </div>
-                        <div>
+                        <div className="group">
                           <span className="font-bold text-[#FF0000]">
                             {screenName}:
                           </span>{' '}
-                          <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(message.content) }} />
+                          {renderMessageBody(message)}
+                          {renderMessageActions(message, true)}
+                          {renderReactionBar(message)}
                         </div>
-                      </React.Fragment>
+                      </div>
                     );
                   } else {
                     elements.push(
-                      <div key={message.id}>
+                      <div key={message.id} data-message-id={message.id} className={`group transition-colors ${highlightClass}`}>
+                        {renderReplyQuote(message)}
                         <span className={`font-bold ${isOwn ? 'text-[#FF0000]' : 'text-[#0000FF]'}`}>
                           {screenName}:
                         </span>{' '}
-                        <span dangerouslySetInnerHTML={{ __html: sanitizeHtml(message.content) }} />
+                        {renderMessageBody(message)}
+                        {renderMessageActions(message, isOwn)}
+                        {renderReactionBar(message)}
+                      </div>
+                    );
+                  }
+
+                  if (receiptLabel && message.id === lastOwnMessage?.id) {
+                    elements.push(
+                      <div key={`receipt-${message.id}`} className="text-right text-[10px] text-gray-400">
+                        {receiptLabel}
                       </div>
                     );
                   }
@@ -2259,13 +4864,13 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
           (otherParticipants[0].status === 'offline' || !otherParticipants[0].status) ? (
             <div className="flex items-center gap-2 my-2">
               <div className="flex-1 border-t border-gray-300" />
-              <span className="text-xs text-gray-400 px-1">{otherParticipants[0].screen_name} is offline</span>
+              <span className="text-xs text-gray-400 px-1">{displayName} is offline</span>
               <div className="flex-1 border-t border-gray-300" />
             </div>
           ) : justCameOnline ? (
             <div className="flex items-center gap-2 my-2">
               <div className="flex-1 border-t border-gray-300" />
-              <span className="text-xs text-gray-400 px-1">{otherParticipants[0].screen_name} is online</span>
+              <span className="text-xs text-gray-400 px-1">{displayName} is online</span>
               <div className="flex-1 border-t border-gray-300" />
             </div>
           ) : null
@@ -2289,6 +4894,43 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Message being replied to */}
+      {replyingTo && (
+        <div className="mx-1 px-2 py-0.5 flex items-center gap-2 bg-win-gray-light border border-win-border-dark text-xs text-gray-600">
+          <span className="flex-1 min-w-0 truncate">
+            Replying to <span className="font-bold">{senderScreenName(replyingTo)}</span>: {messageSnippet(replyingTo, 80)}
+          </span>
+          <button type="button" onClick={() => setReplyingTo(null)} className="text-gray-500 hover:text-red-600 px-1" title="Cancel reply">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {sendError && (
+        <div className="mx-1 px-2 py-0.5 flex items-center gap-2 border border-win-border-dark text-xs bg-red-50 text-red-700">
+          <span className="flex-1 min-w-0 truncate">{sendError}</span>
+          <button type="button" onClick={() => setSendError(null)} className="text-gray-500 hover:text-red-600 px-1" title="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* File transfer progress and errors */}
+      {(uploadingCount > 0 || attachmentError) && (
+        <div className={`mx-1 px-2 py-0.5 flex items-center gap-2 border border-win-border-dark text-xs ${attachmentError ? 'bg-red-50 text-red-700' : 'bg-win-gray-light text-gray-600'}`}>
+          <span className="flex-1 min-w-0 truncate">
+            {uploadingCount > 0
+              ? `Sending ${uploadingCount === 1 ? 'file' : `${uploadingCount} files`}...`
+              : attachmentError}
+          </span>
+          {attachmentError && uploadingCount === 0 && (
+            <button type="button" onClick={() => setAttachmentError(null)} className="text-gray-500 hover:text-red-600 px-1" title="Dismiss">
+              ✕
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Input area with formatting toolbar */}
       <div className="flex flex-col min-h-[120px]">
         <MessageInput
@@ -2296,12 +4938,63 @@ function ChatArea({ conversation, messages, currentUserId, profile, loadingMessa
           onChange={handleInputChange}
           onSend={handleSend}
           sending={sending}
+          onAttachFiles={sendAttachments}
         />
       </div>
     </div>
   );
 }
 
+// Inline editor used when editing a sent message in place
+function InlineMessageEditor({ initialHtml, onSave, onCancel }: {
+  initialHtml: string;
+  onSave: (html: string) => void;
+  onCancel: () => void;
+}) {
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  // Seed the editor once and put the caret at the end
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.innerHTML = initialHtml;
+    editor.focus();
+    const range = document.createRange();
+    range.selectNodeContents(editor);
+    range.collapse(false);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      const editor = editorRef.current;
+      if (editor && editor.innerHTML.trim() && editor.textContent?.trim()) {
+        onSave(editor.innerHTML.trim());
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="my-0.5">
+      <div
+        ref={editorRef}
+        contentEditable
+        onKeyDown={handleKeyDown}
+        className="bg-white win-sunken px-1 py-0.5"
+        style={{ wordBreak: 'break-word' }}
+      />
+      <div className="text-[10px] text-gray-500">Enter to save · Esc to cancel</div>
+    </div>
+  );
+}
+
+// Reactions are limited to these server-side; keep reaction_emojis in message-reactions.sql in step
 const EMOJI_CATEGORIES = {
   'Smileys': ['😀', '😃', '😄', '😁', '😅', '😂', '🤣', '😊', '😇', '🙂', '😉', '😌', '😍', '🥰', '😘', '😋', '😛', '😜', '🤪', '😎', '🤩', '🥳', '😏', '😒', '🙄', '😬', '😮', '🤐', '😯', '😲', '😳', '🥺', '😢', '😭', '😤', '😡', '🤬', '😈', '👿', '💀', '☠️', '💩', '🤡', '👹', '👺', '👻', '👽', '👾', '🤖'],
   'Gestures': ['👋', '🤚', '🖐️', '✋', '🖖', '👌', '🤌', '🤏', '✌️', '🤞', '🤟', '🤘', '🤙', '👈', '👉', '👆', '👇', '👍', '👎', '✊', '👊', '🤛', '🤜', '👏', '🙌', '👐', '🤲', '🙏', '💪', '🦾'],
@@ -2313,15 +5006,114 @@ const EMOJI_CATEGORIES = {
   'Symbols': ['💯', '✨', '💥', '💫', '💦', '💨', '🔥', '⭐', '🌟', '✅', '❌', '❓', '❗', '💤', '💢', '💬', '👁️‍🗨️', '🗯️', '💭', '🕳️', '🚫', '⛔', '📛', '♻️', '✳️']
 };
 
+// Compact emoji picker for reacting to a single message
+function ReactionPicker({ onSelect, onClose }: {
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}) {
+  const [activeCategory, setActiveCategory] = useState('Smileys');
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  return (
+    <div ref={pickerRef} className="absolute top-4 left-0 bg-win-gray win-raised w-56 z-50 shadow-lg">
+      <div className="flex overflow-x-auto border-b border-win-border-dark p-1 gap-0.5 bg-win-gray-light">
+        {Object.keys(EMOJI_CATEGORIES).map((category) => (
+          <button
+            key={category}
+            type="button"
+            onClick={() => setActiveCategory(category)}
+            className={`px-1 py-0.5 text-[10px] whitespace-nowrap ${
+              activeCategory === category ? 'win-sunken bg-white font-bold' : 'win-button'
+            }`}
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+      <div className="p-1 h-28 overflow-y-auto grid grid-cols-7 gap-0.5">
+        {EMOJI_CATEGORIES[activeCategory as keyof typeof EMOJI_CATEGORIES].map((emoji, i) => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => onSelect(emoji)}
+            className="w-7 h-7 flex items-center justify-center text-lg hover:bg-[#316AC5] rounded"
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Text colors for AIM-style formatting
 const TEXT_COLORS = ['#ffffff', '#ff0000', '#ff6600', '#ffff00', '#00ff00', '#00ffff', '#0066ff', '#9900ff', '#ff00ff', '#000000'];
 const HIGHLIGHT_COLORS = ['transparent', '#ffff00', '#00ff00', '#00ffff', '#ff00ff', '#ff6600', '#ff0000'];
 
-function MessageInput({ value, onChange, onSend, sending }: {
+// Inline thumbnail for images, download card for any other file
+function AttachmentView({ message }: { message: Message }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const isImage = isImageAttachment(message.attachment_type);
+  const name = message.attachment_name || 'file';
+
+  useEffect(() => {
+    if (!message.attachment_path) return;
+    let cancelled = false;
+    getAttachmentUrl(message.attachment_path, isImage ? undefined : name).then(signedUrl => {
+      if (!cancelled) setUrl(signedUrl);
+    });
+    return () => { cancelled = true; };
+  }, [message.attachment_path]);
+
+  if (isImage) {
+    return url ? (
+      <a href={url} target="_blank" rel="noopener noreferrer" title={`${name} (click to open full size)`} className="block w-fit my-0.5">
+        <img src={url} alt={name} className="max-w-[200px] max-h-[150px] win-sunken" />
+      </a>
+    ) : (
+      <div className="w-[120px] h-[80px] my-0.5 win-sunken bg-white flex items-center justify-center text-[10px] text-gray-400">
+        Loading image...
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-0.5 inline-flex items-center gap-2 px-2 py-1 bg-win-gray win-raised max-w-[260px] align-top">
+      <span className="text-xl">📄</span>
+      <div className="min-w-0 flex-1">
+        <div className="text-xs font-bold truncate" title={name}>{name}</div>
+        <div className="text-[10px] text-gray-500">
+          {message.attachment_size != null ? formatFileSize(message.attachment_size) : ''}
+        </div>
+      </div>
+      {url ? (
+        <a href={url} target="_blank" rel="noopener noreferrer" className="win-button text-xs px-2 py-0.5 no-underline text-black">
+          Save
+        </a>
+      ) : (
+        <span className="text-[10px] text-gray-400">...</span>
+      )}
+    </div>
+  );
+}
+
+function MessageInput({ value, onChange, onSend, sending, onAttachFiles }: {
   value: string;
   onChange: (val: string) => void;
   onSend: (e: React.FormEvent) => void;
   sending: boolean;
+  onAttachFiles?: (files: File[]) => void;
 }) {
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
@@ -2332,6 +5124,8 @@ function MessageInput({ value, onChange, onSend, sending }: {
   const [activeCategory, setActiveCategory] = useState('Smileys');
   const editorRef = useRef<HTMLDivElement>(null);
   const pickerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
 
   // Close pickers when clicking outside
   useEffect(() => {
@@ -2388,8 +5182,42 @@ function MessageInput({ value, onChange, onSend, sending }: {
     }
   };
 
+  // Pasted files (e.g. screenshots) are sent as attachments instead of inline HTML
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0 || !onAttachFiles) return;
+    e.preventDefault();
+    onAttachFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onAttachFiles || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setDragActive(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0 || !onAttachFiles) return;
+    e.preventDefault();
+    onAttachFiles(files);
+  };
+
   return (
-    <div className="h-full flex flex-col bg-win-gray">
+    <div
+      className={`h-full flex flex-col bg-win-gray ${dragActive ? 'outline-2 outline-dashed outline-[#316AC5] -outline-offset-2' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Formatting Toolbar */}
       <div className="flex items-center gap-0.5 px-1 py-0.5 border-b border-win-border-dark bg-win-gray">
         {/* Bold */}
@@ -2646,6 +5474,32 @@ function MessageInput({ value, onChange, onSend, sending }: {
             </div>
           )}
         </div>
+
+        {/* Send File */}
+        {onAttachFiles && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="win-button w-6 h-6 flex items-center justify-center p-0"
+              title={`Send File (up to ${formatFileSize(MAX_ATTACHMENT_BYTES)})`}
+            >
+              <span className="text-sm">📎</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                if (files.length > 0) onAttachFiles(files);
+              }}
+            />
+          </>
+        )}
       </div>
 
       {/* Message Input Area */}
@@ -2655,6 +5509,7 @@ function MessageInput({ value, onChange, onSend, sending }: {
           contentEditable
           onInput={handleInput}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           className="flex-1 bg-white win-sunken px-2 py-1 overflow-y-auto"
           style={{ wordBreak: 'break-word', fontFamily: 'Arial, sans-serif', fontSize: 'medium' }}
           data-placeholder="Type a message..."
@@ -2681,12 +5536,13 @@ function MessageInput({ value, onChange, onSend, sending }: {
   );
 }
 
-function AddFriendModal({ currentUserId, onClose, onSuccess }: {
+function AddFriendModal({ currentUserId, initialScreenName = '', onClose, onSuccess }: {
   currentUserId: string;
+  initialScreenName?: string;
   onClose: () => void;
   onSuccess: () => void;
 }) {
-  const [screenName, setScreenName] = useState('');
+  const [screenName, setScreenName] = useState(initialScreenName);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -2733,7 +5589,9 @@ function AddFriendModal({ currentUserId, onClose, onSuccess }: {
       .insert({ user_id: currentUserId, friend_id: targetUser.id, status: 'pending' });
 
     if (insertError) {
-      setError(insertError.message);
+      setError(isPrivacyRejection(insertError)
+        ? `${targetUser.screen_name} isn't accepting buddy requests from you`
+        : insertError.message);
       setLoading(false);
       return;
     }
@@ -2786,11 +5644,13 @@ function CreateGroupModal({ currentUserId, friends, onClose, onSuccess }: {
   const [groupName, setGroupName] = useState('');
   const [selectedFriends, setSelectedFriends] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (selectedFriends.length === 0 || !groupName.trim()) return;
 
+    setError(null);
     setLoading(true);
 
     // Create group conversation
@@ -2807,7 +5667,15 @@ function CreateGroupModal({ currentUserId, friends, onClose, onSuccess }: {
         user_id: userId
       }));
 
-      await supabase.from('conversation_participants').insert(participants);
+      const { error: participantsError } = await supabase.from('conversation_participants').insert(participants);
+      if (participantsError) {
+        console.error('Failed to add chat participants:', participantsError);
+        setError(isPrivacyRejection(participantsError)
+          ? "One or more of those buddies aren't accepting chat invitations from you."
+          : 'Could not create the chat room.');
+        setLoading(false);
+        return;
+      }
       onSuccess();
     }
 
@@ -2830,6 +5698,11 @@ function CreateGroupModal({ currentUserId, friends, onClose, onSuccess }: {
           <button onClick={onClose} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
         </div>
         <form onSubmit={handleSubmit} className="p-3 space-y-3">
+          {error && (
+            <div className="p-2 bg-red-100 border border-red-400 text-red-700 text-xs">
+              {error}
+            </div>
+          )}
           <div>
             <label className="block text-xs text-gray-700 mb-1">Group Name</label>
             <input
@@ -2887,12 +5760,1071 @@ function CreateGroupModal({ currentUserId, friends, onClose, onSuccess }: {
   );
 }
 
+// Where one or more parsed logs will be written
+interface LogImportTarget {
+  key: string;
+  label: string;
+  // DMs go into the existing (or a new) conversation with a matched buddy;
+  // anything else gets its own "(imported)" conversation for the importer
+  buddy: { id: string; screen_name: string } | null;
+  existingConversationId: string | null;
+  fileNames: string[];
+  senders: { name: string; mappedTo: string | null }[];
+  entries: { sender_id: string | null; external_sender_name: string | null; content: string; created_at: string }[];
+}
+
+const IMPORT_BATCH_SIZE = 500;
+
+function ImportLogsModal({ currentUserId, profile, onClose, onImported }: {
+  currentUserId: string;
+  profile: Profile | null;
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [logs, setLogs] = useState<ParsedLegacyLog[]>([]);
+  const [failedFiles, setFailedFiles] = useState<{ fileName: string; error: string }[]>([]);
+  const [ownerNames, setOwnerNames] = useState(profile?.screen_name || '');
+  // Profiles matching the screen names found in the logs, keyed by normalized name
+  const [matchedProfiles, setMatchedProfiles] = useState<Record<string, { id: string; screen_name: string }>>({});
+  const [existingDMs, setExistingDMs] = useState<Record<string, string>>({});
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  async function handleFiles(files: File[]) {
+    setReading(true);
+    setResult(null);
+    const parsed: ParsedLegacyLog[] = [];
+    const failed: { fileName: string; error: string }[] = [];
+
+    for (const file of files) {
+      try {
+        const log = parseLegacyLog(file.name, await file.text(), new Date(file.lastModified));
+        if (log.entries.length === 0) throw new Error('No messages found.');
+        parsed.push(log);
+      } catch (e) {
+        failed.push({ fileName: file.name, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    // Pre-fill "your screen names" with whatever the logs say their owner was
+    const owners = new Set(ownerNames.split(',').map(n => n.trim()).filter(Boolean));
+    parsed.forEach(log => { if (log.ownerName) owners.add(log.ownerName); });
+
+    // Look up every sender name once; AIM names ignore case, so match case-insensitively
+    const names = [...new Set(parsed.flatMap(log => log.entries.map(e => e.senderName)))];
+    const lookups = await Promise.all(names.map(name =>
+      supabase
+        .from('profiles')
+        .select('id, screen_name')
+        .ilike('screen_name', name.replace(/[\\%_]/g, '\\$&'))
+        .limit(1)
+    ));
+    const matched: Record<string, { id: string; screen_name: string }> = {};
+    lookups.forEach(({ data }, i) => {
+      if (data?.[0]) matched[normalizeScreenName(names[i])] = data[0];
+    });
+
+    // DMs that already exist, so the preview can say whether one will be created
+    const dmKeys = Object.values(matched)
+      .filter(p => p.id !== currentUserId)
+      .map(p => [currentUserId, p.id].sort().join(':'));
+    const existing: Record<string, string> = {};
+    if (dmKeys.length > 0) {
+      const { data } = await supabase.from('conversations').select('id, dm_key').in('dm_key', dmKeys);
+      data?.forEach(c => { if (c.dm_key) existing[c.dm_key] = c.id; });
+    }
+
+    setLogs(parsed);
+    setFailedFiles(failed);
+    setOwnerNames([...owners].join(', '));
+    setMatchedProfiles(matched);
+    setExistingDMs(existing);
+    setReading(false);
+  }
+
+  // The dry run: everything that would be written, without touching the database
+  const ownerSet = new Set(ownerNames.split(',').map(n => normalizeScreenName(n)).filter(Boolean));
+  const targets = new Map<string, LogImportTarget>();
+  logs.forEach(log => {
+    const isOwner = (entry: LegacyLogEntry) =>
+      entry.isOwn ?? ownerSet.has(normalizeScreenName(entry.senderName));
+    const remoteNames = [...new Set(
+      log.entries.filter(e => !isOwner(e)).map(e => e.senderName)
+    )];
+    const remoteKeys = [...new Set(remoteNames.map(normalizeScreenName))];
+    const match = remoteKeys.length === 1 ? matchedProfiles[remoteKeys[0]] : undefined;
+    const buddy = match && match.id !== currentUserId ? match : null;
+
+    const key = buddy ? `dm:${buddy.id}` : `imported:${remoteKeys.sort().join(',')}`;
+    let target = targets.get(key);
+    if (!target) {
+      const label = remoteNames.length > 0 ? remoteNames.join(', ') : log.remoteName || log.fileName;
+      target = {
+        key,
+        label: buddy ? buddy.screen_name : `${label} (imported)`,
+        buddy,
+        existingConversationId: buddy ? existingDMs[[currentUserId, buddy.id].sort().join(':')] || null : null,
+        fileNames: [],
+        senders: [],
+        entries: [],
+      };
+      targets.set(key, target);
+    }
+    target.fileNames.push(`${log.fileName} (${LEGACY_LOG_FORMAT_LABELS[log.format]})`);
+
+    // Only the importer's own lines are attributed to an account; the server
+    // won't put words in anyone else's mouth, buddy or not
+    log.entries.forEach(entry => {
+      const own = isOwner(entry);
+      if (!target.senders.some(s => s.name === entry.senderName)) {
+        target.senders.push({
+          name: entry.senderName,
+          mappedTo: own ? 'you' : null,
+        });
+      }
+      target.entries.push({
+        sender_id: own ? currentUserId : null,
+        external_sender_name: own ? null : entry.senderName,
+        content: `${entry.autoReply ? '<i>(auto-reply)</i> ' : ''}${textToHtml(entry.text)}`,
+        created_at: entry.timestamp,
+      });
+    });
+  });
+  const plan = [...targets.values()];
+  const totalMessages = plan.reduce((sum, t) => sum + t.entries.length, 0);
+
+  async function runImport() {
+    setImporting(true);
+    setResult(null);
+    let inserted = 0;
+
+    try {
+      for (const target of plan) {
+        setProgress(`Importing ${target.label}...`);
+        let conversationId = target.existingConversationId;
+
+        if (!conversationId && target.buddy) {
+          const { data, error } = await supabase.rpc('find_or_create_dm', { other_user_id: target.buddy.id });
+          if (error) throw error;
+          conversationId = data as string;
+        } else if (!conversationId) {
+          const { data: convo, error } = await supabase
+            .from('conversations')
+            .insert({ name: target.label, is_group: true })
+            .select()
+            .single();
+          if (error || !convo) throw error;
+          await supabase.from('conversation_participants').insert({ conversation_id: convo.id, user_id: currentUserId });
+          conversationId = convo.id as string;
+        }
+
+        for (let i = 0; i < target.entries.length; i += IMPORT_BATCH_SIZE) {
+          const { data, error } = await supabase.rpc('import_messages', {
+            target_conversation_id: conversationId,
+            entries: target.entries.slice(i, i + IMPORT_BATCH_SIZE),
+          });
+          if (error) throw error;
+          inserted += (data as number) || 0;
+        }
+      }
+
+      const skipped = totalMessages - inserted;
+      setResult(`Imported ${inserted} message${inserted === 1 ? '' : 's'}${skipped > 0 ? ` (${skipped} already imported or skipped)` : ''}.`);
+      setLogs([]);
+      onImported();
+    } catch (e) {
+      console.error('Failed to import logs:', e);
+      setResult(`Import stopped after ${inserted} messages. Please try again; already imported messages won't be duplicated.`);
+    }
+
+    setProgress(null);
+    setImporting(false);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-win-gray win-raised w-full max-w-xs max-h-full flex flex-col">
+        <div className="win-titlebar justify-between">
+          <span className="text-xs">Import Chat Logs</span>
+          <button onClick={onClose} disabled={importing} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
+        </div>
+        <div className="p-3 space-y-3 overflow-y-auto">
+          <div>
+            <label className="block text-xs text-gray-700 mb-1">Log files (Pidgin, Trillian or AIM 5.x)</label>
+            <input
+              type="file"
+              multiple
+              accept=".html,.htm,.txt,.xml,.log"
+              disabled={reading || importing}
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                if (files.length > 0) handleFiles(files);
+              }}
+              className="text-xs w-full"
+            />
+          </div>
+
+          {reading && <p className="text-xs text-gray-600">Reading logs...</p>}
+
+          {logs.length > 0 && (
+            <>
+              <div>
+                <label className="block text-xs text-gray-700 mb-1">Your screen names in these logs</label>
+                <input
+                  type="text"
+                  value={ownerNames}
+                  onChange={(e) => setOwnerNames(e.target.value)}
+                  disabled={importing}
+                  className="win-input w-full py-1 text-xs"
+                  placeholder="e.g. MyOldName, MyOtherName"
+                />
+              </div>
+
+              <div>
+                <div className="text-xs text-gray-700 mb-1">
+                  Preview: {totalMessages} messages from {logs.length} file{logs.length === 1 ? '' : 's'}. Nothing is saved until you import.
+                </div>
+                <div className="bg-white win-sunken p-1 max-h-48 overflow-y-auto space-y-2">
+                  {plan.map(target => (
+                    <div key={target.key} className="text-xs">
+                      <div className="font-bold">
+                        {target.buddy
+                          ? `${target.existingConversationId ? 'Existing' : 'New'} IM with ${target.label}`
+                          : `New conversation "${target.label}"`}
+                      </div>
+                      <div className="text-gray-500">
+                        {target.entries.length} messages · {formatPreviewTime(target.entries[0].created_at)}
+                        {' – '}{formatPreviewTime(target.entries[target.entries.length - 1].created_at)}
+                      </div>
+                      {target.senders.map(sender => (
+                        <div key={sender.name} className="pl-2 text-gray-600 truncate">
+                          {sender.name} → {sender.mappedTo || <span className="italic">external sender</span>}
+                        </div>
+                      ))}
+                      <div className="pl-2 text-[10px] text-gray-400 truncate" title={target.fileNames.join(', ')}>
+                        {target.fileNames.join(', ')}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {failedFiles.length > 0 && (
+            <div className="p-2 bg-red-100 border border-red-400 text-red-700 text-xs space-y-0.5">
+              {failedFiles.map(f => <div key={f.fileName}>{f.fileName}: {f.error}</div>)}
+            </div>
+          )}
+
+          {progress && <p className="text-xs text-gray-600">{progress}</p>}
+          {result && <p className="text-xs text-gray-800">{result}</p>}
+
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={onClose} disabled={importing} className="win-button px-3 py-0.5 text-xs">
+              {result ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              type="button"
+              onClick={runImport}
+              disabled={importing || reading || plan.length === 0}
+              className="win-button px-3 py-0.5 text-xs font-bold disabled:opacity-50"
+            >
+              {importing ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BuddyPounceModal({ currentUserId, aliases, buddies, pounces, initialBuddyId, onClose, onChanged }: {
+  currentUserId: string;
+  aliases: BuddyAliases;
+  buddies: Profile[];
+  pounces: BuddyPounce[];
+  initialBuddyId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [buddyId, setBuddyId] = useState(initialBuddyId || buddies[0]?.id || '');
+  const [onSignOn, setOnSignOn] = useState(true);
+  const [onReturnFromAway, setOnReturnFromAway] = useState(false);
+  const [onReturnFromIdle, setOnReturnFromIdle] = useState(false);
+  const [openChat, setOpenChat] = useState(false);
+  const [sendMessage, setSendMessage] = useState(false);
+  const [message, setMessage] = useState('');
+  const [playSound, setPlaySound] = useState(true);
+  const [notify, setNotify] = useState(true);
+  const [recurring, setRecurring] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const buddyName = (id: string) => {
+    const buddy = buddies.find(b => b.id === id);
+    return buddy ? aliasedName(buddy, aliases) : 'Unknown buddy';
+  };
+
+  const describe = (pounce: BuddyPounce) => {
+    const when = [
+      pounce.on_sign_on && 'signs on',
+      pounce.on_return_from_away && 'returns from away',
+      pounce.on_return_from_idle && 'returns from idle',
+    ].filter(Boolean).join(', ');
+    const actions = [
+      pounce.open_chat && 'open IM',
+      pounce.message && `send "${pounce.message}"`,
+      pounce.play_sound && 'sound',
+      pounce.notify && 'notify',
+    ].filter(Boolean).join(', ');
+    return `When ${when}: ${actions}`;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedMessage = message.trim();
+    if (!buddyId) {
+      setError('Pick a buddy to pounce on.');
+      return;
+    }
+    if (!onSignOn && !onReturnFromAway && !onReturnFromIdle) {
+      setError('Pick at least one event to pounce on.');
+      return;
+    }
+    if (sendMessage && !trimmedMessage) {
+      setError('Type the message to send.');
+      return;
+    }
+    if (!openChat && !(sendMessage && trimmedMessage) && !playSound && !notify) {
+      setError('Pick at least one action.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { error: insertError } = await supabase.from('buddy_pounces').insert({
+      user_id: currentUserId,
+      buddy_id: buddyId,
+      on_sign_on: onSignOn,
+      on_return_from_away: onReturnFromAway,
+      on_return_from_idle: onReturnFromIdle,
+      open_chat: openChat,
+      message: sendMessage ? trimmedMessage : null,
+      play_sound: playSound,
+      notify,
+      recurring,
+    });
+    setSaving(false);
+
+    if (insertError) {
+      console.error('Failed to save buddy pounce:', insertError);
+      setError('Could not save the pounce.');
+      return;
+    }
+    setMessage('');
+    setSendMessage(false);
+    onChanged();
+  };
+
+  const removePounce = async (id: string) => {
+    const { error: deleteError } = await supabase.from('buddy_pounces').delete().eq('id', id);
+    if (deleteError) {
+      console.error('Failed to remove buddy pounce:', deleteError);
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-win-gray win-raised w-full max-w-xs max-h-full flex flex-col">
+        <div className="win-titlebar justify-between">
+          <span className="text-xs">Buddy Pounce</span>
+          <button onClick={onClose} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
+        </div>
+        <form onSubmit={handleSave} className="p-3 space-y-3 overflow-y-auto">
+          <label className="block text-xs text-gray-700">
+            Pounce on:
+            <select
+              value={buddyId}
+              onChange={(e) => setBuddyId(e.target.value)}
+              disabled={saving}
+              className="win-input text-xs py-0 w-full mt-0.5"
+            >
+              {buddies.map(buddy => (
+                <option key={buddy.id} value={buddy.id}>{aliasedName(buddy, aliases)}</option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className="border border-win-border-dark p-2 space-y-1">
+            <legend className="text-xs font-bold text-gray-700 px-1">When my buddy</legend>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input type="checkbox" checked={onSignOn} onChange={(e) => setOnSignOn(e.target.checked)} />
+              Signs on
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input type="checkbox" checked={onReturnFromAway} onChange={(e) => setOnReturnFromAway(e.target.checked)} />
+              Returns from away
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input type="checkbox" checked={onReturnFromIdle} onChange={(e) => setOnReturnFromIdle(e.target.checked)} />
+              Returns from idle
+            </label>
+          </fieldset>
+
+          <fieldset className="border border-win-border-dark p-2 space-y-1">
+            <legend className="text-xs font-bold text-gray-700 px-1">Then</legend>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input type="checkbox" checked={openChat} onChange={(e) => setOpenChat(e.target.checked)} />
+              Open an IM window
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input type="checkbox" checked={sendMessage} onChange={(e) => setSendMessage(e.target.checked)} />
+              Send a message
+            </label>
+            {sendMessage && (
+              <input
+                type="text"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                maxLength={1000}
+                className="win-input w-full py-1 text-xs"
+                placeholder="Hey, you're back!"
+              />
+            )}
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input type="checkbox" checked={playSound} onChange={(e) => setPlaySound(e.target.checked)} />
+              Play a sound
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+              Show a notification
+            </label>
+          </fieldset>
+
+          <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+            <input type="checkbox" checked={recurring} onChange={(e) => setRecurring(e.target.checked)} />
+            Keep this pounce after it fires
+          </label>
+
+          {error && (
+            <div className="p-2 bg-red-100 border border-red-400 text-red-700 text-xs">{error}</div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={onClose} className="win-button px-3 py-0.5 text-xs">Close</button>
+            <button
+              type="submit"
+              disabled={saving || buddies.length === 0}
+              className="win-button px-3 py-0.5 text-xs font-bold disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Add Pounce'}
+            </button>
+          </div>
+
+          {pounces.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-700 mb-1">Pending pounces</div>
+              <div className="bg-white win-sunken p-1 max-h-40 overflow-y-auto space-y-1">
+                {pounces.map(pounce => (
+                  <div key={pounce.id} className="flex items-start gap-1 text-xs">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-bold truncate">
+                        {buddyName(pounce.buddy_id)}
+                        {pounce.recurring && <span className="font-normal text-gray-500"> (recurring)</span>}
+                      </div>
+                      <div className="text-gray-600 break-words">{describe(pounce)}</div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removePounce(pounce.id)}
+                      className="text-red-700 hover:underline shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function BuddyGroupsModal({ currentUserId, groups, onClose, onChanged }: {
+  currentUserId: string;
+  groups: BuddyGroup[];
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [newName, setNewName] = useState('');
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => PromiseLike<{ error: { message: string; code?: string } | null }>, failure: string) => {
+    setBusy(true);
+    setError('');
+    const { error: actionError } = await action();
+    setBusy(false);
+    if (actionError) {
+      console.error(`${failure}:`, actionError);
+      // 23505: unique violation on (user_id, name)
+      setError(actionError.code === '23505' ? 'You already have a group with that name.' : `${failure}.`);
+      return false;
+    }
+    onChanged();
+    return true;
+  };
+
+  const addGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    const added = await run(
+      () => supabase.from('buddy_groups').insert({
+        user_id: currentUserId,
+        name,
+        position: groups.length ? Math.max(...groups.map(g => g.position)) + 1 : 0,
+      }),
+      'Could not add the group'
+    );
+    if (added) setNewName('');
+  };
+
+  const renameGroup = (group: BuddyGroup) => {
+    const name = names[group.id]?.trim();
+    if (!name || name === group.name) return;
+    run(() => supabase.from('buddy_groups').update({ name }).eq('id', group.id), 'Could not rename the group');
+  };
+
+  const moveGroup = (index: number, offset: number) => {
+    const order = groups.map(g => g.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    run(() => supabase.rpc('set_buddy_group_positions', { group_ids: order }), 'Could not reorder groups');
+  };
+
+  const deleteGroup = (group: BuddyGroup) => {
+    if (!window.confirm(`Delete the group "${group.name}"? Its buddies move back to Buddies.`)) return;
+    run(() => supabase.from('buddy_groups').delete().eq('id', group.id), 'Could not delete the group');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-win-gray win-raised w-full max-w-xs max-h-full flex flex-col">
+        <div className="win-titlebar justify-between">
+          <span className="text-xs">Buddy Groups</span>
+          <button onClick={onClose} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
+        </div>
+        <div className="p-3 space-y-3 overflow-y-auto">
+          <form onSubmit={addGroup} className="flex gap-1">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={48}
+              disabled={busy}
+              className="win-input flex-1 py-1 text-xs"
+              placeholder="New group, e.g. Co-Workers"
+            />
+            <button type="submit" disabled={busy || !newName.trim()} className="win-button px-2 text-xs disabled:opacity-50">
+              Add
+            </button>
+          </form>
+
+          <div className="bg-white win-sunken p-1 max-h-56 overflow-y-auto space-y-1">
+            {groups.length === 0 ? (
+              <p className="text-gray-400 text-xs px-1 py-1">No groups yet. Drag buddies onto a group to file them there.</p>
+            ) : (
+              groups.map((group, index) => (
+                <div key={group.id} className="flex items-center gap-1 text-xs">
+                  <input
+                    type="text"
+                    value={names[group.id] ?? group.name}
+                    onChange={(e) => setNames(prev => ({ ...prev, [group.id]: e.target.value }))}
+                    onBlur={() => renameGroup(group)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') renameGroup(group); }}
+                    maxLength={48}
+                    disabled={busy}
+                    className="win-input flex-1 min-w-0 py-0.5 text-xs"
+                  />
+                  <button type="button" onClick={() => moveGroup(index, -1)} disabled={busy || index === 0} className="win-button px-1 disabled:opacity-50" title="Move up">▲</button>
+                  <button type="button" onClick={() => moveGroup(index, 1)} disabled={busy || index === groups.length - 1} className="win-button px-1 disabled:opacity-50" title="Move down">▼</button>
+                  <button type="button" onClick={() => deleteGroup(group)} disabled={busy} className="text-red-700 hover:underline px-1">Delete</button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {error && (
+            <div className="p-2 bg-red-100 border border-red-400 text-red-700 text-xs">{error}</div>
+          )}
+
+          <div className="flex justify-end">
+            <button type="button" onClick={onClose} className="win-button px-3 py-0.5 text-xs font-bold">Close</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Confirms a warning, optionally anonymous, and sends it
+function WarnModal({ target, displayName, onClose }: {
+  target: Profile;
+  displayName: string;
+  onClose: () => void;
+}) {
+  const [anonymous, setAnonymous] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState(false);
+
+  const handleWarn = async () => {
+    setError(null);
+    setWarning(true);
+    const { error: warnError } = await supabase.rpc('warn_user', {
+      target_user_id: target.id,
+      warn_anonymously: anonymous,
+    });
+    setWarning(false);
+
+    if (warnError) {
+      console.error('Failed to warn user:', warnError);
+      setError(warnError.message);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-win-gray win-raised w-full max-w-xs">
+        <div className="win-titlebar justify-between">
+          <span className="text-xs">Warn {displayName}</span>
+          <button onClick={onClose} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
+        </div>
+        <div className="p-3 space-y-3">
+          {error && (
+            <div className="p-2 bg-red-100 border border-red-400 text-red-700 text-xs">
+              {error}
+            </div>
+          )}
+          <p className="text-xs text-gray-700">
+            Do you really want to warn {displayName}? Their warning level goes up by {anonymous ? ANONYMOUS_WARN_AMOUNT : WARN_AMOUNT}%,
+            which slows down how fast they can send messages until it wears off.
+          </p>
+          <label className="flex items-center gap-2 text-xs cursor-pointer">
+            <input type="checkbox" checked={anonymous} onChange={(e) => setAnonymous(e.target.checked)} />
+            Warn anonymously (counts for less)
+          </label>
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={onClose} className="win-button px-3 py-0.5 text-xs">Cancel</button>
+            <button type="button" onClick={handleWarn} disabled={warning} className="win-button px-3 py-0.5 text-xs font-bold disabled:opacity-50">
+              {warning ? 'Warning...' : 'Warn'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// AIM's privacy modes and the allow and block lists they use
+function PrivacyModal({ currentUserId, mode, entries, onBlock, onClose, onChanged }: {
+  currentUserId: string;
+  mode: PrivacyMode;
+  entries: PrivacyListEntry[];
+  onBlock: (targetId: string) => Promise<boolean>; // Same as blocking from Buddy Info
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [screenNames, setScreenNames] = useState<Record<'allow' | 'deny', string>>({ allow: '', deny: '' });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => PromiseLike<{ error: { message: string; code?: string } | null }>, failure: string) => {
+    setBusy(true);
+    setError('');
+    const { error: actionError } = await action();
+    setBusy(false);
+    if (actionError) {
+      console.error(`${failure}:`, actionError);
+      setError(`${failure}.`);
+      return false;
+    }
+    onChanged();
+    return true;
+  };
+
+  const setMode = (next: PrivacyMode) => {
+    run(
+      () => supabase.from('privacy_settings').upsert({ user_id: currentUserId, mode: next, updated_at: new Date().toISOString() }),
+      'Could not change your privacy setting'
+    );
+  };
+
+  const addEntry = async (e: React.FormEvent, list: 'allow' | 'deny') => {
+    e.preventDefault();
+    const screenName = screenNames[list].trim();
+    if (!screenName) return;
+
+    setError('');
+    const { data: target } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('screen_name', screenName)
+      .maybeSingle();
+
+    if (!target) {
+      setError('User not found.');
+      return;
+    }
+    if (target.id === currentUserId) {
+      setError("You can't add yourself.");
+      return;
+    }
+
+    let added: boolean;
+    if (list === 'deny') {
+      // Also leaves "allow all" so the block takes effect
+      setBusy(true);
+      added = await onBlock(target.id);
+      setBusy(false);
+      if (!added) setError('Could not block that user.');
+    } else {
+      added = await run(
+        () => supabase
+          .from('privacy_list')
+          .upsert({ user_id: currentUserId, target_id: target.id, list }, { onConflict: 'user_id,target_id,list', ignoreDuplicates: true }),
+        'Could not allow that user'
+      );
+    }
+    if (added) setScreenNames(prev => ({ ...prev, [list]: '' }));
+  };
+
+  const removeEntry = (entry: PrivacyListEntry) => {
+    run(
+      () => supabase
+        .from('privacy_list')
+        .delete()
+        .eq('user_id', currentUserId)
+        .eq('target_id', entry.target_id)
+        .eq('list', entry.list),
+      'Could not update the list'
+    );
+  };
+
+  const renderList = (list: 'allow' | 'deny', title: string, empty: string) => {
+    const listed = entries.filter(e => e.list === list);
+    return (
+      <fieldset className="border border-win-border-dark p-2">
+        <legend className="text-xs font-bold text-gray-700 px-1">{title}</legend>
+        <div className="bg-white win-sunken p-1 max-h-28 overflow-y-auto space-y-0.5 mb-2">
+          {listed.length === 0 ? (
+            <p className="text-gray-400 text-xs px-1 py-0.5">{empty}</p>
+          ) : (
+            listed.map(entry => (
+              <div key={entry.target_id} className="flex items-center gap-1 text-xs">
+                <span className="flex-1 truncate">{entry.profile?.screen_name || 'Unknown'}</span>
+                <button type="button" onClick={() => removeEntry(entry)} disabled={busy} className="text-red-700 hover:underline px-1">Remove</button>
+              </div>
+            ))
+          )}
+        </div>
+        <form onSubmit={(e) => addEntry(e, list)} className="flex gap-1">
+          <input
+            type="text"
+            value={screenNames[list]}
+            onChange={(e) => setScreenNames(prev => ({ ...prev, [list]: e.target.value }))}
+            disabled={busy}
+            className="win-input flex-1 py-1 text-xs"
+            placeholder="Screen name"
+          />
+          <button type="submit" disabled={busy || !screenNames[list].trim()} className="win-button px-2 text-xs disabled:opacity-50">
+            Add
+          </button>
+        </form>
+      </fieldset>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-win-gray win-raised w-full max-w-xs max-h-full flex flex-col">
+        <div className="win-titlebar justify-between">
+          <span className="text-xs">Privacy</span>
+          <button onClick={onClose} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
+        </div>
+        <div className="p-3 space-y-3 overflow-y-auto">
+          <fieldset className="border border-win-border-dark p-2 space-y-1">
+            <legend className="text-xs font-bold text-gray-700 px-1">Who can contact me</legend>
+            {(Object.keys(PRIVACY_MODE_LABELS) as PrivacyMode[]).map(option => (
+              <label key={option} className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="radio"
+                  name="privacy-mode"
+                  checked={mode === option}
+                  disabled={busy}
+                  onChange={() => setMode(option)}
+                />
+                {PRIVACY_MODE_LABELS[option]}
+              </label>
+            ))}
+            <p className="text-[10px] text-gray-500">
+              Applies to IMs, buddy requests and being added to chats. Blocked users are refused in every mode except "allow all".
+            </p>
+          </fieldset>
+
+          {mode === 'allow_list' && renderList('allow', 'Allow List', 'Nobody can contact you yet.')}
+          {renderList('deny', 'Block List', 'No one is blocked.')}
+
+          {error && (
+            <div className="p-2 bg-red-100 border border-red-400 text-red-700 text-xs">{error}</div>
+          )}
+
+          <div className="flex justify-end">
+            <button type="button" onClick={onClose} className="win-button px-3 py-0.5 text-xs font-bold">Close</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PreferencesModal({ profile, onClose, onUpdateProfile, autoAwaySettings, onUpdateAutoAway, minimizeToTray, onUpdateMinimizeToTray, chatWindowMode, onUpdateChatWindowMode, notificationSettings, onUpdateNotifications }: {
+  profile: Profile | null;
+  onClose: () => void;
+  onUpdateProfile: (updates: Partial<Profile>) => Promise<void>;
+  autoAwaySettings: AutoAwaySettings;
+  onUpdateAutoAway: (settings: AutoAwaySettings) => void;
+  minimizeToTray: boolean;
+  onUpdateMinimizeToTray: (enabled: boolean) => void;
+  chatWindowMode: ChatWindowMode;
+  onUpdateChatWindowMode: (mode: ChatWindowMode) => void;
+  notificationSettings: NotificationSettings;
+  onUpdateNotifications: (settings: NotificationSettings) => void;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [savedAwayMessages] = useState(loadSavedAwayMessages);
+
+  const setAutoAway = (updates: Partial<AutoAwaySettings>) => {
+    onUpdateAutoAway({ ...autoAwaySettings, ...updates });
+  };
+
+  const setNotifications = (updates: Partial<NotificationSettings>) => {
+    onUpdateNotifications({ ...notificationSettings, ...updates });
+  };
+
+  const toggleProfileSetting = async (updates: Partial<Profile>) => {
+    setSaving(true);
+    await onUpdateProfile(updates);
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-win-gray win-raised w-full max-w-xs">
+        <div className="win-titlebar justify-between">
+          <span className="text-xs">Preferences</span>
+          <button onClick={onClose} className="text-white hover:bg-red-500 px-1.5 text-xs leading-none">x</button>
+        </div>
+        <div className="p-3 space-y-3">
+          {/* Privacy */}
+          <fieldset className="border border-win-border-dark p-2">
+            <legend className="text-xs font-bold text-gray-700 px-1">Privacy</legend>
+            <label className="flex items-start gap-2 text-xs text-gray-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={profile?.read_receipts_enabled !== false}
+                disabled={saving}
+                onChange={(e) => toggleProfileSetting({ read_receipts_enabled: e.target.checked })}
+                className="mt-0.5"
+              />
+              <span>
+                Send read receipts
+                <span className="block text-[10px] text-gray-500">
+                  When off, buddies won't see when you've read their messages, and you won't see theirs.
+                </span>
+              </span>
+            </label>
+          </fieldset>
+          {/* Buddy list */}
+          <fieldset className="border border-win-border-dark p-2">
+            <legend className="text-xs font-bold text-gray-700 px-1">Buddy List</legend>
+            <label className="flex items-center gap-2 text-xs text-gray-800">
+              Sort buddies by
+              <select
+                value={profile?.buddy_list_sort || 'manual'}
+                disabled={saving}
+                onChange={(e) => toggleProfileSetting({ buddy_list_sort: e.target.value as BuddySort })}
+                className="win-input text-xs py-0"
+              >
+                <option value="manual">Manual order</option>
+                <option value="name">Screen name</option>
+                <option value="status">Status</option>
+              </select>
+            </label>
+            <label className="flex items-start gap-2 text-xs text-gray-800 cursor-pointer mt-2">
+              <input
+                type="checkbox"
+                checked={minimizeToTray}
+                onChange={(e) => onUpdateMinimizeToTray(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Closing the Buddy List minimizes it to the tray
+                <span className="block text-[10px] text-gray-500">
+                  You stay signed on. Use Exit in the tray menu to quit.
+                </span>
+              </span>
+            </label>
+          </fieldset>
+          {/* Chat windows */}
+          <fieldset className="border border-win-border-dark p-2">
+            <legend className="text-xs font-bold text-gray-700 px-1">Instant Messages</legend>
+            <label className="flex items-center gap-2 text-xs text-gray-800">
+              Open IMs in
+              <select
+                value={chatWindowMode}
+                onChange={(e) => onUpdateChatWindowMode(e.target.value as ChatWindowMode)}
+                className="win-input text-xs py-0"
+              >
+                <option value="windows">A window for each IM</option>
+                <option value="tabs">Tabs in one window</option>
+              </select>
+            </label>
+            {chatWindowMode === 'tabs' && (
+              <span className="block text-[10px] text-gray-500 mt-1">
+                Ctrl+Tab switches tabs. Drag a tab out of the window to give it its own.
+              </span>
+            )}
+          </fieldset>
+          {/* Desktop notifications */}
+          <fieldset className="border border-win-border-dark p-2 space-y-1">
+            <legend className="text-xs font-bold text-gray-700 px-1">Notifications</legend>
+            {([
+              ['messages', 'New messages'],
+              ['buddyRequests', 'Buddy requests'],
+              ['signOns', 'Buddies signing on'],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={notificationSettings[key]}
+                  disabled={notificationSettings.doNotDisturb}
+                  onChange={(e) => setNotifications({ [key]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+            <label className="flex items-start gap-2 text-xs text-gray-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={notificationSettings.doNotDisturb}
+                onChange={(e) => setNotifications({ doNotDisturb: e.target.checked })}
+                className="mt-0.5"
+              />
+              <span>
+                Do Not Disturb
+                <span className="block text-[10px] text-gray-500">
+                  No notifications at all. Individual chats can be muted from their File menu.
+                </span>
+              </span>
+            </label>
+          </fieldset>
+          {/* Idle and auto-away */}
+          <fieldset className="border border-win-border-dark p-2 space-y-2">
+            <legend className="text-xs font-bold text-gray-700 px-1">Idle &amp; Away</legend>
+            <label className="flex items-center gap-2 text-xs text-gray-800">
+              Show me as idle after
+              <select
+                value={autoAwaySettings.idleMinutes}
+                onChange={(e) => setAutoAway({ idleMinutes: Number(e.target.value) })}
+                className="win-input text-xs py-0"
+              >
+                {IDLE_THRESHOLD_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={autoAwaySettings.awayWhenIdle}
+                onChange={(e) => setAutoAway({ awayWhenIdle: e.target.checked })}
+              />
+              Set me away when I go idle
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={autoAwaySettings.awayOnLock}
+                onChange={(e) => setAutoAway({ awayOnLock: e.target.checked })}
+              />
+              Set me away when my screen locks or computer sleeps
+            </label>
+            <label className="block text-xs text-gray-800">
+              Away message:
+              <select
+                value={autoAwaySettings.awayMessageId || ''}
+                onChange={(e) => setAutoAway({ awayMessageId: e.target.value || null })}
+                className="win-input text-xs py-0 w-full mt-0.5"
+              >
+                <option value="">{DEFAULT_AUTO_AWAY_MESSAGE}</option>
+                {savedAwayMessages.map(saved => (
+                  <option key={saved.id} value={saved.id}>{saved.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-start gap-2 text-xs text-gray-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={autoAwaySettings.autoReturn}
+                onChange={(e) => setAutoAway({ autoReturn: e.target.checked })}
+                className="mt-0.5"
+              />
+              <span>
+                Come back automatically
+                <span className="block text-[10px] text-gray-500">
+                  When off, you stay away after an automatic away until you change your status.
+                </span>
+              </span>
+            </label>
+          </fieldset>
+          <div className="flex justify-end">
+            <button type="button" onClick={onClose} className="win-button px-3 py-0.5 text-xs font-bold">Close</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 interface SavedAwayMessage {
   id: string;
   label: string;
   message: string;
 }
 
+function loadSavedAwayMessages(): SavedAwayMessage[] {
+  const stored = localStorage.getItem('aim_saved_away_messages');
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to load saved away messages:', e);
+    return [];
+  }
+}
+
 function AwayMessageModal({ currentMessage, onClose, onSave }: {
   currentMessage: string;
   onClose: () => void;
@@ -2976,14 +6908,7 @@ function AwayMessageModal({ currentMessage, onClose, onSave }: {
 
   // Load saved messages from localStorage on mount
   useEffect(() => {
-    const stored = localStorage.getItem('aim_saved_away_messages');
-    if (stored) {
-      try {
-        setSavedMessages(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to load saved away messages:', e);
-      }
-    }
+    setSavedMessages(loadSavedAwayMessages());
   }, []);
 
   // Save messages to localStorage whenever they change
@@ -3,15 +3,71 @@
 declare const MAIN_WINDOW_VITE_DEV_SERVER_URL: string | undefined;
 declare const MAIN_WINDOW_VITE_NAME: string;
 
+// What the tray icon and menu show, sent by the buddy list window.
+// A null screenName means signed off.
+interface TrayState {
+  status: 'online' | 'away' | 'invisible' | 'offline';
+  screenName: string | null;
+  awayMessages: { id: string; label: string }[];
+}
+
+type TrayCommand =
+  | { action: 'set-status'; status: 'online' | 'away' | 'invisible' }
+  | { action: 'set-away-message'; awayMessageId: string }
+  | { action: 'set-do-not-disturb'; enabled: boolean }
+  | { action: 'sign-off' };
+
+// A desktop notification shown by the main process. With a conversationId,
+// clicking opens that chat and replies go to it; with a buddyId, clicking
+// starts an IM with that buddy.
+interface DesktopNotification {
+  title: string;
+  body: string;
+  icon?: string; // PNG data URL
+  conversationId?: string;
+  conversationName?: string;
+  buddyId?: string;
+}
+
+// A conversation hosted in a tabbed chat window. focusMessageId scrolls the
+// tab to a message when it first opens.
+interface ChatTab {
+  conversationId: string;
+  conversationName: string;
+  focusMessageId?: string;
+}
+
 interface ElectronAPI {
-  openChatWindow: (conversationId: string, conversationName: string) => void;
+  openChatWindow: (conversationId: string, conversationName: string, focusMessageId?: string) => void;
   isChatWindowOpen: (conversationId: string) => Promise<boolean>;
+  openSearchWindow: () => void;
+  onFocusMessage: (callback: (messageId: string, conversationId: string) => void) => () => void;
+  takeDeepLinks: () => Promise<string[]>;
+  onDeepLink: (callback: () => void) => () => void;
+  setChatWindowMode: (mode: 'windows' | 'tabs') => void;
+  getChatTabs: () => Promise<ChatTab[]>;
+  onChatTabOpen: (callback: (tab: ChatTab) => void) => () => void;
+  chatTabActivated: (conversationId: string) => void;
+  closeChatTab: (conversationId: string) => void;
+  detachChatTab: (tab: ChatTab, position?: { x: number; y: number }) => void;
+  saveConversation: (format: 'html' | 'txt' | 'json', defaultFileName: string, contents: string) => Promise<{ saved: boolean; filePath?: string }>;
   openHangoutWindow: (conversationId: string, participants: unknown[]) => void;
   closeHangoutWindow: () => void;
   updateAvatarPosition: (x: number, y: number) => void;
   setIgnoreMouseEvents: (ignore: boolean) => void;
   onHangoutUpdate: (callback: (data: unknown) => void) => () => void;
   onAvatarPositionUpdate: (callback: (data: unknown) => void) => () => void;
+  getIdleState: () => Promise<{ idleSince: number | null }>;
+  onIdleStateChanged: (callback: (state: { idleSince: number | null }) => void) => () => void;
+  setIdleThreshold: (seconds: number) => void;
+  onPowerStateChanged: (callback: (state: 'lock-screen' | 'unlock-screen' | 'suspend' | 'resume') => void) => () => void;
+  setTrayState: (state: TrayState) => void;
+  onTrayCommand: (callback: (command: TrayCommand) => void) => () => void;
+  setMinimizeToTray: (enabled: boolean) => void;
+  showNotification: (notification: DesktopNotification) => void;
+  setDoNotDisturb: (enabled: boolean) => void;
+  onNotificationClicked: (callback: (data: { buddyId: string }) => void) => () => void;
+  onNotificationReply: (callback: (data: { conversationId: string; text: string }) => void) => () => void;
   onBeforeQuit: (callback: () => void) => () => void;
   signoffComplete: () => void;
 }
@@ -15,8 +15,13 @@ export interface Profile {
   screen_name: string;
   email: string;
   avatar_url?: string;
-  status: 'online' | 'away' | 'offline';
+  status: 'online' | 'away' | 'invisible' | 'offline';
   away_message?: string;
+  idle_since?: string | null; // Set while the user's computer is idle
+  warning_level?: number; // Percent as of warning_updated_at; decays over time
+  warning_updated_at?: string | null;
+  read_receipts_enabled?: boolean;
+  buddy_list_sort?: 'manual' | 'name' | 'status';
   created_at: string;
 }
 
@@ -32,6 +37,7 @@ export interface Conversation {
   id: string;
   name?: string; // For group chats
   is_group: boolean;
+  dm_key?: string | null; // Canonical user pair for 1:1 chats
   created_at: string;
 }
 
@@ -40,6 +46,7 @@ export interface ConversationParticipant {
   conversation_id: string;
   user_id: string;
   joined_at: string;
+  last_read_at: string;
 }
 
 export interface Message {
@@ -48,4 +55,13 @@ export interface Message {
   sender_id: string;
   content: string;
   created_at: string;
+  updated_at?: string | null; // Set when the message has been edited
+  deleted_at?: string | null; // Set when the message has been unsent
+  reply_to_id?: string | null; // Message this one quotes
+  attachment_path?: string | null; // Storage path in the attachments bucket
+  attachment_name?: string | null;
+  attachment_size?: number | null;
+  attachment_type?: string | null;
+  imported_at?: string | null; // Set for history imported from old chat logs
+  external_sender_name?: string | null; // Imported sender with no profile
 }
@@ -1,21 +1,46 @@
-import { app, BrowserWindow, ipcMain, screen, shell } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Menu, nativeImage, Notification, powerMonitor, screen, shell, Tray } from 'electron';
+import { writeFile } from 'node:fs/promises';
 import path from 'node:path';
 import started from 'electron-squirrel-startup';
+import { trackWindowState, windowStateOptions } from './windowState';
+import { DEEP_LINK_SCHEME } from './utils/deepLinks';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (started) {
   app.quit();
 }
 
+// A second launch hands its arguments to this instance and exits, so two
+// copies never fight over the same account's presence
+const hasInstanceLock = app.requestSingleInstanceLock();
+if (!hasInstanceLock) {
+  app.quit();
+}
+
 let mainWindow: BrowserWindow | null = null;
 let hangoutWindow: BrowserWindow | null = null;
+let searchWindow: BrowserWindow | null = null;
+// Every open conversation and the window showing it; tabbed windows appear once per tab
 const chatWindows: Map<string, BrowserWindow> = new Map();
+// Tabbed chat windows, each with its tabs in order and the one being shown
+const tabbedChatWindows: Map<BrowserWindow, { tabs: ChatTab[]; activeConversationId: string | null }> = new Map();
+// New conversations open as tabs here when the tabbed mode is on
+let lastTabbedChatWindow: BrowserWindow | null = null;
+// Set by the buddy list window from Preferences
+let chatWindowMode: 'windows' | 'tabs' = 'windows';
+let tray: Tray | null = null;
+
+// Set by the buddy list window; while on, closing it hides it in the tray instead
+let minimizeToTray = false;
+// Set once a real quit starts, so closing the buddy list isn't turned into a hide
+let isQuitting = false;
+// Set from Preferences or the tray menu; suppresses desktop notifications
+let doNotDisturb = false;
 
 const createWindow = () => {
   // Create the buddy list window (smaller, like classic AIM)
   mainWindow = new BrowserWindow({
-    width: 280,
-    height: 500,
+    ...windowStateOptions('buddy-list', { width: 280, height: 500 }),
     minWidth: 250,
     minHeight: 400,
     webPreferences: {
@@ -24,6 +49,7 @@ const createWindow = () => {
     title: 'Buddy List',
     backgroundColor: '#ECE9D8',
   });
+  trackWindowState(mainWindow, 'buddy-list');
 
   // and load the index.html of the app.
   if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
@@ -38,20 +64,95 @@ const createWindow = () => {
   if (process.env.NODE_ENV === 'development') {
     mainWindow.webContents.openDevTools();
   }
+
+  mainWindow.on('close', (event) => {
+    if (minimizeToTray && tray && !isQuitting) {
+      event.preventDefault();
+      mainWindow?.hide();
+    }
+  });
+};
+
+const showBuddyList = () => {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+};
+
+// Links wait here until the signed-on buddy list asks for them
+const pendingDeepLinks: string[] = [];
+
+const queueDeepLink = (url: string) => {
+  pendingDeepLinks.push(url);
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('deep-link');
+  }
+};
+
+// Command line of this launch or a later one. Windows and Linux pass
+// protocol links as an argument.
+const handleLaunchArgs = (argv: string[]) => {
+  argv.filter(arg => arg.startsWith(`${DEEP_LINK_SCHEME}:`)).forEach(queueDeepLink);
 };
 
-const createChatWindow = (conversationId: string, conversationName: string) => {
+app.on('second-instance', (_event, argv) => {
+  showBuddyList();
+  handleLaunchArgs(argv);
+});
+
+// macOS delivers links as an event instead, possibly before 'ready'
+app.on('open-url', (event, url) => {
+  event.preventDefault();
+  if (app.isReady()) showBuddyList();
+  queueDeepLink(url);
+});
+
+ipcMain.handle('take-deep-links', () => pendingDeepLinks.splice(0));
+
+const loadChatRoute = (win: BrowserWindow, hash: string) => {
+  if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+    win.loadURL(`${MAIN_WINDOW_VITE_DEV_SERVER_URL}#${hash}`);
+  } else {
+    win.loadFile(
+      path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`),
+      { hash }
+    );
+  }
+};
+
+// position places a window where a tab was dragged out to
+const createChatWindow = (
+  conversationId: string,
+  conversationName: string,
+  focusMessageId?: string,
+  options: { standalone?: boolean; position?: { x: number; y: number } } = {}
+) => {
   // Check if window already exists for this conversation
   const existingWindow = chatWindows.get(conversationId);
   if (existingWindow && !existingWindow.isDestroyed()) {
     existingWindow.focus();
+    if (tabbedChatWindows.has(existingWindow)) {
+      existingWindow.webContents.send('chat-tab-open', { conversationId, conversationName });
+    }
+    if (focusMessageId) {
+      existingWindow.webContents.send('focus-message', focusMessageId, conversationId);
+    }
+    return;
+  }
+
+  if (chatWindowMode === 'tabs' && !options.standalone) {
+    openChatTab({ conversationId, conversationName, focusMessageId });
     return;
   }
 
   // Create a new chat window - show immediately for faster perceived performance
   const chatWindow = new BrowserWindow({
-    width: 500,
-    height: 450,
+    ...windowStateOptions(`chat-${conversationId}`, { width: 500, height: 450 }),
+    ...options.position,
     minWidth: 350,
     minHeight: 300,
     show: true, // Show immediately
@@ -63,23 +164,103 @@ const createChatWindow = (conversationId: string, conversationName: string) => {
   });
 
   chatWindows.set(conversationId, chatWindow);
+  trackWindowState(chatWindow, `chat-${conversationId}`);
+
+  // Load the chat window URL, optionally scrolled to a specific message
+  loadChatRoute(chatWindow, focusMessageId
+    ? `/chat/${conversationId}/message/${focusMessageId}`
+    : `/chat/${conversationId}`);
 
-  // Load the chat window URL
-  const url = MAIN_WINDOW_VITE_DEV_SERVER_URL
-    ? `${MAIN_WINDOW_VITE_DEV_SERVER_URL}#/chat/${conversationId}`
-    : null;
+  chatWindow.on('closed', () => {
+    chatWindows.delete(conversationId);
+  });
+};
+
+// Adds a conversation to the most recently used tabbed window, creating one if
+// needed. The window's renderer asks for its tabs once it's ready, so tabs
+// added while it's still loading aren't lost.
+const openChatTab = (tab: ChatTab) => {
+  let tabbedWindow = lastTabbedChatWindow && !lastTabbedChatWindow.isDestroyed() ? lastTabbedChatWindow : null;
+
+  if (!tabbedWindow) {
+    const created = new BrowserWindow({
+      ...windowStateOptions('chat-tabs', { width: 560, height: 480 }),
+      minWidth: 350,
+      minHeight: 300,
+      backgroundColor: '#ECE9D8',
+      webPreferences: {
+        preload: path.join(__dirname, 'preload.js'),
+      },
+      title: `Instant Message with ${tab.conversationName || 'Chat'}`,
+    });
+    tabbedChatWindows.set(created, { tabs: [], activeConversationId: null });
+    trackWindowState(created, 'chat-tabs');
+    loadChatRoute(created, '/tabs');
 
-  if (url) {
-    chatWindow.loadURL(url);
+    created.on('focus', () => {
+      lastTabbedChatWindow = created;
+    });
+    created.on('closed', () => {
+      tabbedChatWindows.get(created)?.tabs.forEach(t => {
+        if (chatWindows.get(t.conversationId) === created) chatWindows.delete(t.conversationId);
+      });
+      tabbedChatWindows.delete(created);
+      if (lastTabbedChatWindow === created) lastTabbedChatWindow = null;
+    });
+
+    lastTabbedChatWindow = created;
+    tabbedWindow = created;
+  }
+
+  tabbedChatWindows.get(tabbedWindow)?.tabs.push(tab);
+  chatWindows.set(tab.conversationId, tabbedWindow);
+  tabbedWindow.webContents.send('chat-tab-open', tab);
+  tabbedWindow.show();
+  tabbedWindow.focus();
+};
+
+// Forgets a tab; a tabbed window with none left closes
+const removeChatTab = (tabbedWindow: BrowserWindow, conversationId: string) => {
+  const state = tabbedChatWindows.get(tabbedWindow);
+  if (!state) return;
+  state.tabs = state.tabs.filter(t => t.conversationId !== conversationId);
+  if (chatWindows.get(conversationId) === tabbedWindow) {
+    chatWindows.delete(conversationId);
+  }
+  if (state.tabs.length === 0) {
+    tabbedWindow.close();
+  }
+};
+
+const createSearchWindow = () => {
+  if (searchWindow && !searchWindow.isDestroyed()) {
+    searchWindow.focus();
+    return;
+  }
+
+  searchWindow = new BrowserWindow({
+    width: 420,
+    height: 480,
+    minWidth: 320,
+    minHeight: 300,
+    backgroundColor: '#ECE9D8',
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+    },
+    title: 'Search Messages',
+  });
+
+  if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+    searchWindow.loadURL(`${MAIN_WINDOW_VITE_DEV_SERVER_URL}#/search`);
   } else {
-    chatWindow.loadFile(
+    searchWindow.loadFile(
       path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`),
-      { hash: `/chat/${conversationId}` }
+      { hash: '/search' }
     );
   }
 
-  chatWindow.on('closed', () => {
-    chatWindows.delete(conversationId);
+  searchWindow.on('closed', () => {
+    searchWindow = null;
   });
 };
 
@@ -140,9 +321,47 @@ const createHangoutWindow = (conversationId: string, participants: unknown[]) =>
 };
 
 // IPC Handlers
-ipcMain.on('open-chat-window', (_event, { conversationId, conversationName }) => {
+ipcMain.on('open-chat-window', (_event, { conversationId, conversationName, focusMessageId }) => {
   console.log('main: open-chat-window received', conversationId, conversationName);
-  createChatWindow(conversationId, conversationName);
+  createChatWindow(conversationId, conversationName, focusMessageId);
+});
+
+ipcMain.on('open-search-window', () => {
+  createSearchWindow();
+});
+
+ipcMain.on('set-chat-window-mode', (_event, mode: 'windows' | 'tabs') => {
+  if (mode === 'windows' || mode === 'tabs') chatWindowMode = mode;
+});
+
+ipcMain.handle('get-chat-tabs', (event) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  return (win && tabbedChatWindows.get(win)?.tabs) || [];
+});
+
+ipcMain.on('chat-tab-activated', (event, conversationId: string) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  const state = win && tabbedChatWindows.get(win);
+  if (state) state.activeConversationId = conversationId;
+});
+
+ipcMain.on('chat-tab-closed', (event, conversationId: string) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (win) removeChatTab(win, conversationId);
+});
+
+// A tab dragged out of its window becomes a window of its own
+ipcMain.on('detach-chat-tab', (event, { conversationId, conversationName, x, y }: {
+  conversationId: string;
+  conversationName: string;
+  x?: number;
+  y?: number;
+}) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!win || !tabbedChatWindows.has(win)) return;
+  removeChatTab(win, conversationId);
+  const position = Number.isFinite(x) && Number.isFinite(y) ? { x: Math.round(x as number), y: Math.round(y as number) } : undefined;
+  createChatWindow(conversationId, conversationName, undefined, { standalone: true, position });
 });
 
 ipcMain.handle('is-chat-window-open', (_event, conversationId: string) => {
@@ -150,6 +369,40 @@ ipcMain.handle('is-chat-window-open', (_event, conversationId: string) => {
   return !!(win && !win.isDestroyed());
 });
 
+// Save an exported conversation log wherever the user picks
+const CHAT_LOG_FILTERS: Record<string, Electron.FileFilter> = {
+  html: { name: 'Web Page (HTML)', extensions: ['html'] },
+  txt: { name: 'Plain Text', extensions: ['txt'] },
+  json: { name: 'JSON', extensions: ['json'] },
+};
+
+ipcMain.handle('save-conversation', async (event, { format, defaultFileName, contents }: {
+  format: string;
+  defaultFileName: string;
+  contents: string;
+}) => {
+  const filter = CHAT_LOG_FILTERS[format];
+  if (!filter || typeof contents !== 'string') {
+    throw new Error(`Unsupported conversation format: ${format}`);
+  }
+
+  const parent = BrowserWindow.fromWebContents(event.sender);
+  const options: Electron.SaveDialogOptions = {
+    title: 'Save Conversation',
+    defaultPath: path.join(app.getPath('documents'), `${path.basename(defaultFileName)}.${filter.extensions[0]}`),
+    filters: [filter],
+  };
+  const { canceled, filePath } = parent
+    ? await dialog.showSaveDialog(parent, options)
+    : await dialog.showSaveDialog(options);
+  if (canceled || !filePath) {
+    return { saved: false };
+  }
+
+  await writeFile(filePath, contents, 'utf8');
+  return { saved: true, filePath };
+});
+
 ipcMain.on('open-hangout-window', (_event, { conversationId, participants }) => {
   createHangoutWindow(conversationId, participants);
 });
@@ -175,6 +428,222 @@ ipcMain.on('set-ignore-mouse-events', (_event, ignore: boolean) => {
   }
 });
 
+// System tray. The icon is a status dot drawn at runtime, in the buddy list's
+// colors; the menu mirrors the status picker and the user's saved away messages.
+const TRAY_STATUS_COLORS: Record<TrayState['status'], [number, number, number]> = {
+  online: [0x22, 0xc5, 0x5e],
+  away: [0xea, 0xb3, 0x08],
+  invisible: [0xd1, 0xd5, 0xdb],
+  offline: [0x6b, 0x72, 0x80],
+};
+
+const TRAY_STATUS_LABELS: Record<TrayState['status'], string> = {
+  online: 'Online',
+  away: 'Away',
+  invisible: 'Invisible',
+  offline: 'Signed Off',
+};
+
+let trayState: TrayState = { status: 'offline', screenName: null, awayMessages: [] };
+const trayIcons = new Map<TrayState['status'], Electron.NativeImage>();
+
+const getTrayIcon = (status: TrayState['status']) => {
+  const cached = trayIcons.get(status);
+  if (cached) return cached;
+
+  // 16x16 BGRA dot with a dark outline. Pixels are fully opaque or fully
+  // transparent, so premultiplied and straight alpha come out the same.
+  const size = 16;
+  const radius = size / 2 - 1;
+  const center = (size - 1) / 2;
+  const [r, g, b] = TRAY_STATUS_COLORS[status];
+  const bitmap = Buffer.alloc(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const distance = Math.hypot(x - center, y - center);
+      if (distance > radius) continue;
+      const outline = distance > radius - 1.5;
+      const offset = (y * size + x) * 4;
+      bitmap[offset] = outline ? 0x40 : b;
+      bitmap[offset + 1] = outline ? 0x40 : g;
+      bitmap[offset + 2] = outline ? 0x40 : r;
+      bitmap[offset + 3] = 0xff;
+    }
+  }
+
+  const icon = nativeImage.createFromBitmap(bitmap, { width: size, height: size });
+  trayIcons.set(status, icon);
+  return icon;
+};
+
+const sendTrayCommand = (command: TrayCommand, show = false) => {
+  if (show) showBuddyList();
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('tray-command', command);
+  }
+};
+
+const updateTray = () => {
+  if (!tray) return;
+  const { status, screenName, awayMessages } = trayState;
+  const signedOn = !!screenName;
+
+  tray.setImage(getTrayIcon(signedOn ? status : 'offline'));
+  tray.setToolTip(signedOn ? `${screenName} - ${TRAY_STATUS_LABELS[status]}` : 'Buddy List');
+
+  // Radio items check themselves when clicked; rebuilding puts the check back
+  // on the real status until the buddy list reports a change
+  const statusItem = (value: 'online' | 'away' | 'invisible'): Electron.MenuItemConstructorOptions => ({
+    label: TRAY_STATUS_LABELS[value],
+    type: 'radio',
+    checked: status === value,
+    enabled: signedOn,
+    click: () => {
+      // Going away asks for a message, so the buddy list has to be visible
+      sendTrayCommand({ action: 'set-status', status: value }, value === 'away');
+      updateTray();
+    },
+  });
+
+  tray.setContextMenu(Menu.buildFromTemplate([
+    { label: 'Open Buddy List', click: showBuddyList },
+    { type: 'separator' },
+    statusItem('online'),
+    statusItem('away'),
+    statusItem('invisible'),
+    {
+      label: 'Away Message',
+      enabled: signedOn,
+      submenu: [
+        ...awayMessages.map(message => ({
+          label: message.label,
+          click: () => sendTrayCommand({ action: 'set-away-message', awayMessageId: message.id }),
+        })),
+        ...(awayMessages.length ? [{ type: 'separator' as const }] : []),
+        { label: 'New Away Message...', click: () => sendTrayCommand({ action: 'set-status', status: 'away' }, true) },
+      ],
+    },
+    { type: 'separator' },
+    {
+      label: 'Do Not Disturb',
+      type: 'checkbox',
+      checked: doNotDisturb,
+      click: (item) => {
+        doNotDisturb = item.checked;
+        sendTrayCommand({ action: 'set-do-not-disturb', enabled: doNotDisturb });
+      },
+    },
+    { label: 'Sign Off', enabled: signedOn, click: () => sendTrayCommand({ action: 'sign-off' }, true) },
+    { label: 'Exit', click: () => app.quit() },
+  ]));
+};
+
+const createTray = () => {
+  tray = new Tray(getTrayIcon('offline'));
+  // Windows and Linux open the menu on right-click; a left click brings the list up
+  tray.on('click', showBuddyList);
+  updateTray();
+};
+
+ipcMain.on('set-tray-state', (_event, state: TrayState) => {
+  if (!state || !(state.status in TRAY_STATUS_LABELS)) return;
+  trayState = {
+    status: state.status,
+    screenName: state.screenName || null,
+    awayMessages: Array.isArray(state.awayMessages) ? state.awayMessages : [],
+  };
+  updateTray();
+});
+
+ipcMain.on('set-minimize-to-tray', (_event, enabled: boolean) => {
+  minimizeToTray = !!enabled;
+});
+
+// Desktop notifications. The buddy list window decides what's worth a
+// notification; this shows it unless Do Not Disturb is on or the user is
+// already looking at the conversation.
+// Notifications that lose their last reference stop delivering clicks on Windows
+const activeNotifications = new Set<Notification>();
+
+ipcMain.on('set-do-not-disturb', (_event, enabled: boolean) => {
+  doNotDisturb = !!enabled;
+  updateTray();
+});
+
+ipcMain.on('show-notification', (_event, payload: DesktopNotification) => {
+  if (doNotDisturb || !Notification.isSupported()) return;
+  const { conversationId, conversationName, buddyId } = payload;
+  const showingWindow = conversationId ? chatWindows.get(conversationId) : undefined;
+  if (showingWindow?.isFocused()) {
+    const tabbed = tabbedChatWindows.get(showingWindow);
+    if (!tabbed || tabbed.activeConversationId === conversationId) return;
+  }
+
+  const notification = new Notification({
+    title: String(payload.title),
+    body: String(payload.body),
+    icon: payload.icon ? nativeImage.createFromDataURL(payload.icon) : undefined,
+    // The app plays its own sounds
+    silent: true,
+    // Inline replies are macOS-only; elsewhere these are ignored
+    hasReply: !!conversationId,
+    replyPlaceholder: 'Reply',
+  });
+
+  notification.on('click', () => {
+    if (conversationId) {
+      createChatWindow(conversationId, conversationName || 'Chat');
+    } else {
+      showBuddyList();
+      if (buddyId && mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('notification-clicked', { buddyId });
+      }
+    }
+  });
+  notification.on('reply', (_replyEvent, reply) => {
+    if (conversationId && reply.trim() && mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('notification-reply', { conversationId, text: reply });
+    }
+  });
+  notification.on('close', () => activeNotifications.delete(notification));
+
+  activeNotifications.add(notification);
+  notification.show();
+});
+
+// System-wide idle tracking. The buddy list window publishes idle_since so
+// buddies see "(idle 23m)"; activity in any app counts, not just ours.
+// The threshold comes from the auto-away preferences.
+const IDLE_POLL_INTERVAL = 15 * 1000;
+let idleThresholdSeconds = 10 * 60;
+let idleSince: number | null = null;
+
+const checkIdleState = () => {
+  const idleSeconds = powerMonitor.getSystemIdleTime();
+  const isIdle = idleSeconds >= idleThresholdSeconds;
+  if (isIdle === (idleSince !== null)) return;
+
+  idleSince = isIdle ? Date.now() - idleSeconds * 1000 : null;
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('idle-state-changed', { idleSince });
+  }
+};
+
+ipcMain.handle('get-idle-state', () => ({ idleSince }));
+
+ipcMain.on('set-idle-threshold', (_event, seconds: number) => {
+  if (!Number.isFinite(seconds) || seconds < 60) return;
+  idleThresholdSeconds = seconds;
+  checkIdleState();
+});
+
+// Screen lock and sleep, for going away automatically
+const forwardPowerEvent = (state: 'lock-screen' | 'unlock-screen' | 'suspend' | 'resume') => () => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('power-state-changed', state);
+  }
+};
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
@@ -189,7 +658,12 @@ app.on('web-contents-created', (_event, contents) => {
 
   contents.on('will-navigate', (event, url) => {
     // Allow hash navigation for internal routing
-    if (url.includes('#/chat/') || url.includes('#/hangout')) return;
+    if (url.includes('#/chat/') || url.includes('#/tabs') || url.includes('#/hangout') || url.includes('#/search')) return;
+    // A file dropped outside a drop target would otherwise replace the app
+    if (url.startsWith('file://')) {
+      event.preventDefault();
+      return;
+    }
     if (url.startsWith('http://') || url.startsWith('https://')) {
       event.preventDefault();
       shell.openExternal(url);
@@ -197,20 +671,40 @@ app.on('web-contents-created', (_event, contents) => {
   });
 });
 
-app.on('ready', createWindow);
+app.on('ready', () => {
+  if (!hasInstanceLock) return;
+  // In development the app runs through the electron binary, which needs the entry script too
+  if (process.defaultApp && process.argv.length >= 2) {
+    app.setAsDefaultProtocolClient(DEEP_LINK_SCHEME, process.execPath, [path.resolve(process.argv[1])]);
+  } else {
+    app.setAsDefaultProtocolClient(DEEP_LINK_SCHEME);
+  }
+  createWindow();
+  createTray();
+  handleLaunchArgs(process.argv);
+  setInterval(checkIdleState, IDLE_POLL_INTERVAL);
+  powerMonitor.on('lock-screen', forwardPowerEvent('lock-screen'));
+  powerMonitor.on('unlock-screen', forwardPowerEvent('unlock-screen'));
+  powerMonitor.on('suspend', forwardPowerEvent('suspend'));
+  powerMonitor.on('resume', forwardPowerEvent('resume'));
+});
 
 // Track if we're already signing off to avoid infinite loop
 let isSigningOff = false;
+// Set once the renderer has signed off, so the quit that follows goes through
+let hasSignedOff = false;
 
 // Allow renderer to signal that offline update is complete
 ipcMain.on('signoff-complete', () => {
   isSigningOff = false;
+  hasSignedOff = true;
   app.quit();
 });
 
 // Set user offline in Supabase before the app actually quits
 app.on('before-quit', (event) => {
-  if (isSigningOff) return;
+  isQuitting = true;
+  if (isSigningOff || hasSignedOff) return;
   if (mainWindow && !mainWindow.isDestroyed()) {
     event.preventDefault();
     isSigningOff = true;
@@ -239,6 +733,8 @@ app.on('activate', () => {
   // dock icon is clicked and there are no other windows open.
   if (BrowserWindow.getAllWindows().length === 0) {
     createWindow();
+  } else if (mainWindow && !mainWindow.isDestroyed() && !mainWindow.isVisible()) {
+    mainWindow.show();
   }
 });
 
@@ -6,13 +6,52 @@ import { contextBridge, ipcRenderer } from 'electron';
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
-  openChatWindow: (conversationId: string, conversationName: string) => {
+  openChatWindow: (conversationId: string, conversationName: string, focusMessageId?: string) => {
     console.log('preload: openChatWindow called', conversationId, conversationName);
-    ipcRenderer.send('open-chat-window', { conversationId, conversationName });
+    ipcRenderer.send('open-chat-window', { conversationId, conversationName, focusMessageId });
   },
   isChatWindowOpen: (conversationId: string): Promise<boolean> => {
     return ipcRenderer.invoke('is-chat-window-open', conversationId);
   },
+  openSearchWindow: () => {
+    ipcRenderer.send('open-search-window');
+  },
+  onFocusMessage: (callback: (messageId: string, conversationId: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, messageId: string, conversationId: string) => callback(messageId, conversationId);
+    ipcRenderer.on('focus-message', handler);
+    return () => { ipcRenderer.removeListener('focus-message', handler); };
+  },
+  takeDeepLinks: (): Promise<string[]> => {
+    return ipcRenderer.invoke('take-deep-links');
+  },
+  onDeepLink: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('deep-link', handler);
+    return () => { ipcRenderer.removeListener('deep-link', handler); };
+  },
+  setChatWindowMode: (mode: 'windows' | 'tabs') => {
+    ipcRenderer.send('set-chat-window-mode', mode);
+  },
+  getChatTabs: (): Promise<ChatTab[]> => {
+    return ipcRenderer.invoke('get-chat-tabs');
+  },
+  onChatTabOpen: (callback: (tab: ChatTab) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, tab: ChatTab) => callback(tab);
+    ipcRenderer.on('chat-tab-open', handler);
+    return () => { ipcRenderer.removeListener('chat-tab-open', handler); };
+  },
+  chatTabActivated: (conversationId: string) => {
+    ipcRenderer.send('chat-tab-activated', conversationId);
+  },
+  closeChatTab: (conversationId: string) => {
+    ipcRenderer.send('chat-tab-closed', conversationId);
+  },
+  detachChatTab: (tab: ChatTab, position?: { x: number; y: number }) => {
+    ipcRenderer.send('detach-chat-tab', { conversationId: tab.conversationId, conversationName: tab.conversationName, ...position });
+  },
+  saveConversation: (format: string, defaultFileName: string, contents: string): Promise<{ saved: boolean; filePath?: string }> => {
+    return ipcRenderer.invoke('save-conversation', { format, defaultFileName, contents });
+  },
   openHangoutWindow: (conversationId: string, participants: unknown[]) => {
     ipcRenderer.send('open-hangout-window', { conversationId, participants });
   },
@@ -35,6 +74,49 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('avatar-position-update', handler);
     return () => { ipcRenderer.removeListener('avatar-position-update', handler); };
   },
+  getIdleState: (): Promise<{ idleSince: number | null }> => {
+    return ipcRenderer.invoke('get-idle-state');
+  },
+  onIdleStateChanged: (callback: (state: { idleSince: number | null }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, state: { idleSince: number | null }) => callback(state);
+    ipcRenderer.on('idle-state-changed', handler);
+    return () => { ipcRenderer.removeListener('idle-state-changed', handler); };
+  },
+  setIdleThreshold: (seconds: number) => {
+    ipcRenderer.send('set-idle-threshold', seconds);
+  },
+  onPowerStateChanged: (callback: (state: 'lock-screen' | 'unlock-screen' | 'suspend' | 'resume') => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, state: 'lock-screen' | 'unlock-screen' | 'suspend' | 'resume') => callback(state);
+    ipcRenderer.on('power-state-changed', handler);
+    return () => { ipcRenderer.removeListener('power-state-changed', handler); };
+  },
+  setTrayState: (state: TrayState) => {
+    ipcRenderer.send('set-tray-state', state);
+  },
+  onTrayCommand: (callback: (command: TrayCommand) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, command: TrayCommand) => callback(command);
+    ipcRenderer.on('tray-command', handler);
+    return () => { ipcRenderer.removeListener('tray-command', handler); };
+  },
+  setMinimizeToTray: (enabled: boolean) => {
+    ipcRenderer.send('set-minimize-to-tray', enabled);
+  },
+  showNotification: (notification: DesktopNotification) => {
+    ipcRenderer.send('show-notification', notification);
+  },
+  setDoNotDisturb: (enabled: boolean) => {
+    ipcRenderer.send('set-do-not-disturb', enabled);
+  },
+  onNotificationClicked: (callback: (data: { buddyId: string }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: { buddyId: string }) => callback(data);
+    ipcRenderer.on('notification-clicked', handler);
+    return () => { ipcRenderer.removeListener('notification-clicked', handler); };
+  },
+  onNotificationReply: (callback: (data: { conversationId: string; text: string }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: { conversationId: string; text: string }) => callback(data);
+    ipcRenderer.on('notification-reply', handler);
+    return () => { ipcRenderer.removeListener('notification-reply', handler); };
+  },
   onBeforeQuit: (callback: () => void) => {
     const handler = () => callback();
     ipcRenderer.on('before-quit', handler);
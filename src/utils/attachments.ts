@@ -0,0 +1,85 @@
+// File transfer helpers
+// Attachments are stored in the private "attachments" bucket under the
+// conversation's folder, so storage RLS can scope them to participants.
+// The limits below mirror the bucket settings in message-attachments.sql.
+
+import { supabase } from '../lib/supabase';
+
+const ATTACHMENTS_BUCKET = 'attachments';
+
+// How long a signed download/thumbnail URL stays valid
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+export interface UploadedAttachment {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+export function isImageAttachment(type: string | null | undefined): boolean {
+  return !!type && type.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Returns a user-facing reason the file can't be sent, or null if it's fine
+export function validateAttachment(file: File): string | null {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} can't be sent: that file type isn't allowed.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} can't be sent: files must be ${formatFileSize(MAX_ATTACHMENT_BYTES)} or smaller.`;
+  }
+  return null;
+}
+
+export async function uploadAttachment(conversationId: string, file: File): Promise<UploadedAttachment> {
+  // Keep the original name for display, but only safe characters in the path
+  const safeName = file.name.replace(/[^\w.-]+/g, '_') || 'file';
+  const path = `${conversationId}/${crypto.randomUUID()}/${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+
+  return { path, name: file.name, size: file.size, type: file.type };
+}
+
+export async function removeAttachment(path: string): Promise<void> {
+  const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+  if (error) console.error('Failed to remove attachment:', error);
+}
+
+// Signed URL for viewing; pass a file name to have the response download as that name
+export async function getAttachmentUrl(path: string, downloadName?: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, downloadName ? { download: downloadName } : undefined);
+  if (error) {
+    console.error('Failed to get attachment URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
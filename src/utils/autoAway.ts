@@ -0,0 +1,40 @@
+// Auto-away preferences
+// Kept per computer in localStorage next to the saved away messages they refer to,
+// since idle time and screen locking are properties of the machine, not the account.
+
+const STORAGE_KEY = 'aim_auto_away_settings';
+
+export const DEFAULT_AUTO_AWAY_MESSAGE = 'Auto-away: Inactive';
+
+export const IDLE_THRESHOLD_OPTIONS = [5, 10, 15, 20, 30, 60];
+
+export interface AutoAwaySettings {
+  idleMinutes: number; // Also when buddies start seeing "(idle)"
+  awayWhenIdle: boolean;
+  awayOnLock: boolean; // Screen lock or system suspend
+  awayMessageId: string | null; // A saved away message, or null for the default
+  autoReturn: boolean; // Come back online on activity instead of staying away
+}
+
+export const DEFAULT_AUTO_AWAY_SETTINGS: AutoAwaySettings = {
+  idleMinutes: 10,
+  awayWhenIdle: true,
+  awayOnLock: false,
+  awayMessageId: null,
+  autoReturn: true,
+};
+
+export function loadAutoAwaySettings(): AutoAwaySettings {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_AUTO_AWAY_SETTINGS;
+  try {
+    return { ...DEFAULT_AUTO_AWAY_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('Failed to load auto-away settings:', e);
+    return DEFAULT_AUTO_AWAY_SETTINGS;
+  }
+}
+
+export function saveAutoAwaySettings(settings: AutoAwaySettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
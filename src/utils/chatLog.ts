@@ -0,0 +1,120 @@
+// Chat log export
+// Turns a conversation's history into the files written by "Save Conversation".
+// Entries arrive already sanitized, so this module only handles layout.
+
+import { formatFileSize } from './attachments';
+import { textToHtml } from './html';
+
+export type ChatLogFormat = 'html' | 'txt' | 'json';
+
+export interface ChatLogEntry {
+  type: 'message' | 'away';
+  id: string;
+  senderId: string;
+  senderName: string;
+  timestamp: string;
+  html: string; // Sanitized HTML, as shown in the chat window
+  text: string; // Plain-text version of html
+  isOwn: boolean;
+  editedAt?: string | null;
+  unsent?: boolean;
+  replyToId?: string | null;
+  attachment?: { name: string; size: number | null; type: string | null } | null;
+}
+
+export interface ChatLog {
+  title: string;
+  participants: string[];
+  exportedAt: string;
+  entries: ChatLogEntry[];
+}
+
+function formatSize(bytes: number | null): string {
+  return bytes == null ? '' : ` (${formatFileSize(bytes)})`;
+}
+
+function entryLabel(entry: ChatLogEntry): string {
+  return entry.type === 'away' ? `${entry.senderName} (away message)` : entry.senderName;
+}
+
+function formatText(log: ChatLog): string {
+  const lines = [
+    `Conversation with ${log.participants.join(', ')}`,
+    `Saved ${new Date(log.exportedAt).toLocaleString()}`,
+    '',
+  ];
+  log.entries.forEach(entry => {
+    let body = entry.unsent ? '(message unsent)' : entry.text;
+    if (entry.attachment) {
+      body = `[File: ${entry.attachment.name}${formatSize(entry.attachment.size)}]${body ? ` ${body}` : ''}`;
+    }
+    if (entry.editedAt) body += ' (edited)';
+    lines.push(`[${new Date(entry.timestamp).toLocaleString()}] ${entryLabel(entry)}: ${body}`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+function formatHtml(log: ChatLog): string {
+  let lastDate = '';
+  const rows: string[] = [];
+
+  log.entries.forEach(entry => {
+    const date = new Date(entry.timestamp);
+    const dateStr = date.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    if (dateStr !== lastDate) {
+      lastDate = dateStr;
+      rows.push(`<div class="date"><span>${textToHtml(dateStr)}</span></div>`);
+    }
+
+    const senderClass = entry.type === 'message' && entry.isOwn ? 'own' : 'other';
+    let body = entry.unsent ? '<span class="muted">(message unsent)</span>' : entry.html;
+    if (entry.attachment) {
+      body = `<span class="file">📎 ${textToHtml(entry.attachment.name)}${textToHtml(formatSize(entry.attachment.size))}</span> ${body}`;
+    }
+    if (entry.editedAt) body += ' <span class="muted">(edited)</span>';
+
+    rows.push(
+      `<div class="entry"><span class="time">${textToHtml(date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }))}</span> `
+      + `<span class="sender ${senderClass}">${textToHtml(entryLabel(entry))}:</span> ${body}</div>`
+    );
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${textToHtml(log.title)}</title>
+<style>
+  body { margin: 0; padding: 12px; background: #ECE9D8; font-family: Tahoma, Arial, sans-serif; }
+  h1 { margin: 0; padding: 3px 6px; font-size: 13px; color: #fff; background: linear-gradient(to bottom, #0A246A, #3A6EA5); }
+  .meta { padding: 4px 6px; font-size: 11px; color: #555; }
+  .log { background: #fff; border: 2px inset #ACA899; padding: 8px; font-family: Arial, sans-serif; font-size: medium; }
+  .entry { margin: 2px 0; word-wrap: break-word; }
+  .time { font-size: 10px; color: #9ca3af; }
+  .sender { font-weight: bold; }
+  .own { color: #FF0000; }
+  .other { color: #0000FF; }
+  .muted { font-style: italic; font-size: 12px; color: #9ca3af; }
+  .file { display: inline-block; padding: 0 4px; font-size: 12px; background: #ECE9D8; border: 1px outset #ACA899; }
+  .date { display: flex; align-items: center; gap: 8px; margin: 8px 0; font-size: 12px; color: #9ca3af; }
+  .date::before, .date::after { content: ""; flex: 1; border-top: 1px solid #d1d5db; }
+</style>
+</head>
+<body>
+<h1>${textToHtml(log.title)}</h1>
+<div class="meta">Conversation with ${textToHtml(log.participants.join(', '))} · saved ${textToHtml(new Date(log.exportedAt).toLocaleString())}</div>
+<div class="log">
+${rows.join('\n')}
+</div>
+</body>
+</html>
+`;
+}
+
+export function formatChatLog(log: ChatLog, format: ChatLogFormat): string {
+  switch (format) {
+    case 'html': return formatHtml(log);
+    case 'txt': return formatText(log);
+    case 'json': return JSON.stringify(log, null, 2) + '\n';
+  }
+}
@@ -0,0 +1,29 @@
+// buddylist:// links, in the spirit of AIM's aim:goim links
+//   buddylist://im?screenname=Name        start an IM
+//   buddylist://addbuddy?screenname=Name  open Add Buddy filled in
+// The main process registers the scheme and hands links to the buddy list.
+
+export const DEEP_LINK_SCHEME = 'buddylist';
+
+export type DeepLink =
+  | { action: 'im'; screenName: string }
+  | { action: 'addbuddy'; screenName: string };
+
+export function parseDeepLink(link: string): DeepLink | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== `${DEEP_LINK_SCHEME}:`) return null;
+
+  // buddylist:im?... has no host, so fall back to the path
+  const action = (url.hostname || url.pathname.replace(/^\/+/, '')).toLowerCase();
+  const screenName = url.searchParams.get('screenname')?.trim();
+  if (!screenName) return null;
+
+  if (action === 'im' || action === 'goim') return { action: 'im', screenName };
+  if (action === 'addbuddy') return { action: 'addbuddy', screenName };
+  return null;
+}
@@ -0,0 +1,11 @@
+// Plain text as message HTML, for text that doesn't come from the rich editor
+// (notification replies, pounce messages, imported logs) and for exported logs.
+
+export function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+}
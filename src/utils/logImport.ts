@@ -0,0 +1,249 @@
+// Legacy chat log import
+// Parses Pidgin (HTML and plain text), Trillian XML and AIM 5.x HTML logs into
+// a common shape. Nothing here touches the database; see ImportLogsModal.
+
+export type LegacyLogFormat = 'pidgin-html' | 'pidgin-txt' | 'trillian-xml' | 'aim-html';
+
+export const LEGACY_LOG_FORMAT_LABELS: Record<LegacyLogFormat, string> = {
+  'pidgin-html': 'Pidgin HTML',
+  'pidgin-txt': 'Pidgin text',
+  'trillian-xml': 'Trillian XML',
+  'aim-html': 'AIM 5.x HTML',
+};
+
+export interface LegacyLogEntry {
+  senderName: string;
+  timestamp: string;
+  text: string;
+  // Whether the log itself marks this line as sent by the log's owner; null if it doesn't say
+  isOwn: boolean | null;
+  autoReply: boolean;
+}
+
+export interface ParsedLegacyLog {
+  fileName: string;
+  format: LegacyLogFormat;
+  ownerName: string | null;
+  remoteName: string | null;
+  entries: LegacyLogEntry[];
+}
+
+// AIM screen names ignore case and spaces
+export function normalizeScreenName(name: string): string {
+  return name.replace(/\s+/g, '').toLowerCase();
+}
+
+function detectFormat(contents: string): LegacyLogFormat | null {
+  const head = contents.slice(0, 4000);
+  if (/<(session|message)\s[^>]*medium=/i.test(head)) return 'trillian-xml';
+  if (/<html|<body|<br/i.test(head)) {
+    return /Conversation with .+ at .+ on /i.test(head) ? 'pidgin-html' : 'aim-html';
+  }
+  if (/^\s*Conversation with .+ at .+ on /i.test(head)) return 'pidgin-txt';
+  return null;
+}
+
+// "10:00:05 PM", "22:00" or a full date and time
+function parseTime(value: string, baseDate: Date): Date | null {
+  const clock = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?$/i);
+  if (clock) {
+    let hours = Number(clock[1]) % 24;
+    const meridiem = clock[4]?.toUpperCase();
+    if (meridiem === 'PM' && hours < 12) hours += 12;
+    if (meridiem === 'AM' && hours === 12) hours = 0;
+    const date = new Date(baseDate);
+    date.setHours(hours, Number(clock[2]), Number(clock[3] || 0), 0);
+    return date;
+  }
+  const full = Date.parse(value);
+  return Number.isNaN(full) ? null : new Date(full);
+}
+
+// Clock-only timestamps repeat every day; move forward a day whenever time runs backwards
+function createClock(baseDate: Date) {
+  let current = new Date(baseDate);
+  let last: Date | null = null;
+  return (value: string | undefined): Date => {
+    if (!value) return last || current;
+    let date = parseTime(value, current);
+    if (!date) return last || current;
+    if (last && date.getTime() < last.getTime() && /^\s*\d{1,2}:\d{2}/.test(value)) {
+      current = new Date(current.getTime() + 24 * 60 * 60 * 1000);
+      date = parseTime(value, current) as Date;
+    }
+    last = date;
+    return date;
+  };
+}
+
+// Pidgin names files like 2005-01-01.100000-0500EST.html
+function dateFromFileName(fileName: string): Date | null {
+  const match = fileName.match(/(\d{4})-(\d{2})-(\d{2})\.(\d{2})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return new Date(y, mo - 1, d, h, mi, s);
+}
+
+// "Conversation with buddy at Sat 01 Jan 2005 10:00:00 AM EST on me (aim)"
+function parsePidginHeader(text: string): { remoteName: string; ownerName: string; date: Date | null } | null {
+  const match = text.match(/Conversation with (.+?) at (.+?) on (.+?)(?: \(\w+\))?\s*$/m);
+  if (!match) return null;
+  // Trailing time zone abbreviations ("EST") trip up Date.parse
+  const parsed = Date.parse(match[2].replace(/\s+[A-Z]{2,5}$/, ''));
+  return {
+    remoteName: match[1].trim(),
+    ownerName: match[3].trim(),
+    date: Number.isNaN(parsed) ? null : new Date(parsed),
+  };
+}
+
+function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\u00a0/g, ' ');
+}
+
+// One chat line: optional "(time)", then "name: message"
+function parseLine(line: string, time?: string): { time?: string; senderName: string; text: string; autoReply: boolean } | null {
+  const match = line.match(/^\s*(?:\(([^)]*)\)\s*)?([^:]{1,64}?):\s?([\s\S]*)$/);
+  if (!match) return null;
+  let senderName = match[2].trim();
+  const autoReply = /<AUTO-REPLY>$/i.test(senderName);
+  senderName = senderName.replace(/\s*<AUTO-REPLY>$/i, '');
+  const text = match[3].trim();
+  if (!senderName || !text) return null;
+  return { time: time || match[1], senderName, text, autoReply };
+}
+
+function parsePidgin(fileName: string, contents: string, format: LegacyLogFormat, fallbackDate: Date): ParsedLegacyLog {
+  const lines = format === 'pidgin-html'
+    ? contents.split(/<br\s*\/?>|\n/i).map(htmlToText)
+    : contents.split(/\r?\n/);
+  const header = parsePidginHeader(lines.find(l => /Conversation with /i.test(l)) || '');
+  const nextTime = createClock(dateFromFileName(fileName) || header?.date || fallbackDate);
+
+  const entries: LegacyLogEntry[] = [];
+  lines.forEach(line => {
+    if (/^\s*Conversation with /i.test(line)) return;
+    const parsed = parseLine(line);
+    if (!parsed) {
+      // Continuation of a multi-line message
+      const previous = entries[entries.length - 1];
+      if (previous && line.trim() && !/^\s*\(/.test(line)) previous.text += `\n${line.trim()}`;
+      return;
+    }
+    entries.push({
+      senderName: parsed.senderName,
+      timestamp: nextTime(parsed.time).toISOString(),
+      text: parsed.text,
+      isOwn: null,
+      autoReply: parsed.autoReply,
+    });
+  });
+
+  return {
+    fileName,
+    format,
+    ownerName: header?.ownerName || null,
+    remoteName: header?.remoteName || null,
+    entries,
+  };
+}
+
+function parseTrillian(fileName: string, contents: string): ParsedLegacyLog {
+  // Trillian logs are a bare sequence of elements, so give them a root
+  const doc = new DOMParser().parseFromString(
+    `<log>${contents.replace(/<\?xml[^>]*\?>/i, '')}</log>`,
+    'text/xml'
+  );
+  if (doc.querySelector('parsererror')) {
+    throw new Error('The Trillian log is not valid XML.');
+  }
+
+  let ownerName: string | null = null;
+  let remoteName: string | null = null;
+  const entries: LegacyLogEntry[] = [];
+
+  doc.querySelectorAll('message').forEach(el => {
+    const type = el.getAttribute('type') || '';
+    const outgoing = type.startsWith('outgoing');
+    const from = el.getAttribute('from') || '';
+    const to = el.getAttribute('to') || '';
+    if (outgoing) {
+      ownerName = ownerName || from;
+      remoteName = remoteName || to;
+    } else {
+      ownerName = ownerName || to;
+      remoteName = remoteName || from;
+    }
+
+    let text = el.getAttribute('text') || '';
+    try {
+      text = decodeURIComponent(text);
+    } catch {
+      // Leave malformed escapes as they are
+    }
+    text = htmlToText(text).trim();
+
+    const seconds = Number(el.getAttribute('time'));
+    const ms = Number(el.getAttribute('ms') || 0);
+    if (!text || !from || !seconds) return;
+    entries.push({
+      senderName: from,
+      timestamp: new Date(seconds * 1000 + ms).toISOString(),
+      text,
+      isOwn: outgoing,
+      autoReply: /auto/i.test(type),
+    });
+  });
+
+  return { fileName, format: 'trillian-xml', ownerName, remoteName, entries };
+}
+
+// AIM 5.x saved IMs: own names in red, buddies in blue, times in visible
+// parentheses or hidden in comments like <!-- (10:00:05 AM)-->
+function parseAim(fileName: string, contents: string, fallbackDate: Date): ParsedLegacyLog {
+  const sessionStart = contents.match(/Session Start[^:]*:\s*([^<\r\n]+)/i);
+  const startDate = sessionStart ? Date.parse(sessionStart[1]) : NaN;
+  const nextTime = createClock(Number.isNaN(startDate) ? fallbackDate : new Date(startDate));
+
+  let ownerName: string | null = null;
+  let remoteName: string | null = null;
+  const entries: LegacyLogEntry[] = [];
+
+  contents.split(/<br\s*\/?>/i).forEach(chunk => {
+    const hiddenTime = chunk.match(/<!--\s*\(([^)]*)\)\s*-->/)?.[1];
+    const parsed = parseLine(htmlToText(chunk.replace(/<!--[\s\S]*?-->/g, '')), hiddenTime);
+    if (!parsed) return;
+
+    const nameColor = chunk.match(/<font[^>]*color="?#?([0-9a-f]{6})/i)?.[1]?.toLowerCase();
+    const isOwn = nameColor === 'ff0000' ? true : nameColor === '0000ff' ? false : null;
+    if (isOwn === true) ownerName = ownerName || parsed.senderName;
+    if (isOwn === false) remoteName = remoteName || parsed.senderName;
+
+    entries.push({
+      senderName: parsed.senderName,
+      timestamp: nextTime(parsed.time).toISOString(),
+      text: parsed.text,
+      isOwn,
+      autoReply: parsed.autoReply,
+    });
+  });
+
+  return { fileName, format: 'aim-html', ownerName, remoteName, entries };
+}
+
+// fallbackDate is used when the log has no date of its own (e.g. the file's modified time)
+export function parseLegacyLog(fileName: string, contents: string, fallbackDate: Date): ParsedLegacyLog {
+  const format = detectFormat(contents);
+  switch (format) {
+    case 'pidgin-html':
+    case 'pidgin-txt':
+      return parsePidgin(fileName, contents, format, fallbackDate);
+    case 'trillian-xml':
+      return parseTrillian(fileName, contents);
+    case 'aim-html':
+      return parseAim(fileName, contents, fallbackDate);
+    default:
+      throw new Error('Not a recognized Pidgin, Trillian or AIM log.');
+  }
+}
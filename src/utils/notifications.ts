@@ -0,0 +1,54 @@
+// Desktop notification preferences
+// Kept per computer in localStorage like the auto-away settings: whether this
+// machine should pop up notifications is up to whoever is sitting at it.
+// Per-conversation mute is stored server-side on conversation_participants.
+
+const STORAGE_KEY = 'aim_notification_settings';
+
+export interface NotificationSettings {
+  messages: boolean;
+  buddyRequests: boolean;
+  signOns: boolean;
+  doNotDisturb: boolean; // Overrides everything above
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  messages: true,
+  buddyRequests: true,
+  signOns: true,
+  doNotDisturb: false,
+};
+
+export function loadNotificationSettings(): NotificationSettings {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_NOTIFICATION_SETTINGS;
+  try {
+    return { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('Failed to load notification settings:', e);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Avatars are emoji, so draw one on the yellow buddy icon tile for the
+// notification. Returns a PNG data URL, or undefined if there's no canvas.
+export function avatarDataUrl(emoji: string | null | undefined): string | undefined {
+  const size = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  ctx.fillStyle = '#FFD900';
+  ctx.fillRect(0, 0, size, size);
+  ctx.font = `${size * 0.7}px "Segoe UI Emoji", "Apple Color Emoji", "Noto Color Emoji", sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(emoji || '😎', size / 2, size / 2 + size * 0.05);
+  return canvas.toDataURL('image/png');
+}
@@ -59,3 +59,33 @@ export function playMessageSound(): void {
     console.log('Could not play message sound:', e);
   }
 }
+
+// Buddy Pounce alert - rising three-note chime
+export function playPounceSound(): void {
+  try {
+    const ctx = getAudioContext();
+    const now = ctx.currentTime;
+    const notes = [659.25, 783.99, 1046.5]; // E5, G5, C6
+
+    notes.forEach((frequency, i) => {
+      const start = now + i * 0.12;
+      const oscillator = ctx.createOscillator();
+      const gainNode = ctx.createGain();
+
+      oscillator.connect(gainNode);
+      gainNode.connect(ctx.destination);
+
+      oscillator.type = 'triangle';
+      oscillator.frequency.setValueAtTime(frequency, start);
+
+      gainNode.gain.setValueAtTime(0, start);
+      gainNode.gain.linearRampToValueAtTime(0.15, start + 0.01);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, start + 0.25);
+
+      oscillator.start(start);
+      oscillator.stop(start + 0.3);
+    });
+  } catch (e) {
+    console.log('Could not play pounce sound:', e);
+  }
+}
@@ -0,0 +1,36 @@
+// Warning levels
+// Mirrors the decay and throttling rules in warning-levels.sql so levels can be
+// shown without a round trip. The database remains the one enforcing them.
+
+export const WARNING_DECAY_PER_HOUR = 10;
+
+// Points added by one warning
+export const WARN_AMOUNT = 10;
+export const ANONYMOUS_WARN_AMOUNT = 3;
+
+// Level now, after decay since it was last raised
+export function currentWarningLevel(
+  level: number | null | undefined,
+  updatedAt: string | null | undefined,
+  now = Date.now()
+): number {
+  if (!level) return 0;
+  if (!updatedAt) return level;
+  const hours = (now - new Date(updatedAt).getTime()) / (60 * 60 * 1000);
+  return Math.max(0, level - Math.floor(hours * WARNING_DECAY_PER_HOUR));
+}
+
+// Minimum seconds between messages at a warning level
+export function sendIntervalSeconds(level: number): number {
+  if (level >= 100) return 60;
+  if (level >= 80) return 30;
+  if (level >= 60) return 15;
+  if (level >= 40) return 5;
+  if (level >= 20) return 2;
+  return 0;
+}
+
+// The server refuses sends over the rate limit with SQLSTATE PT429
+export function isRateLimited(error: { code?: string } | null): boolean {
+  return error?.code === 'PT429';
+}
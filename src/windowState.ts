@@ -0,0 +1,95 @@
+// Remembers where windows were left (bounds, maximized state and display) in
+// userData/window-state.json so they reopen in the same place. Runs in the main process.
+
+import { app, BrowserWindow, Rectangle, screen } from 'electron';
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+interface SavedWindowState {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isMaximized: boolean;
+  displayId: number;
+  savedAt: number;
+}
+
+// Conversations come and go, so only the most recently closed are kept
+const MAX_SAVED_WINDOWS = 200;
+
+let savedStates: Record<string, SavedWindowState> | null = null;
+
+const stateFilePath = () => path.join(app.getPath('userData'), 'window-state.json');
+
+function loadStates(): Record<string, SavedWindowState> {
+  if (savedStates) return savedStates;
+  let states: Record<string, SavedWindowState> = {};
+  try {
+    const parsed = JSON.parse(readFileSync(stateFilePath(), 'utf8'));
+    if (parsed && typeof parsed === 'object') states = parsed;
+  } catch {
+    // Missing on first run; a corrupt file just means default placement
+  }
+  savedStates = states;
+  return states;
+}
+
+// Written synchronously because windows close while the app is quitting
+function persistStates(states: Record<string, SavedWindowState>) {
+  const newest = Object.entries(states)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_SAVED_WINDOWS);
+  savedStates = Object.fromEntries(newest);
+  try {
+    writeFileSync(stateFilePath(), JSON.stringify(savedStates));
+  } catch (error) {
+    console.error('Failed to save window state:', error);
+  }
+}
+
+// Fits bounds inside a work area, shrinking them if the display got smaller
+function clampToArea(bounds: Rectangle, area: Rectangle): Rectangle {
+  const width = Math.min(bounds.width, area.width);
+  const height = Math.min(bounds.height, area.height);
+  return {
+    width,
+    height,
+    x: Math.min(Math.max(bounds.x, area.x), area.x + area.width - width),
+    y: Math.min(Math.max(bounds.y, area.y), area.y + area.height - height),
+  };
+}
+
+// BrowserWindow size and position for a window, falling back to defaults
+// (centered by Electron) when nothing was saved. A window whose display has
+// been disconnected moves onto the nearest one still attached.
+export function windowStateOptions(key: string, defaults: { width: number; height: number }): Partial<Rectangle> & { width: number; height: number } {
+  const saved = loadStates()[key];
+  if (!saved) return defaults;
+
+  const bounds = { x: saved.x, y: saved.y, width: saved.width, height: saved.height };
+  const display = screen.getAllDisplays().find(d => d.id === saved.displayId)
+    ?? screen.getDisplayMatching(bounds);
+  return clampToArea(bounds, display.workArea);
+}
+
+// Restores the maximized state and saves the window's state when it closes
+export function trackWindowState(win: BrowserWindow, key: string) {
+  if (loadStates()[key]?.isMaximized) {
+    win.maximize();
+  }
+
+  win.on('close', () => {
+    // Normal bounds so a maximized window un-maximizes back to its old size
+    const bounds = win.getNormalBounds();
+    persistStates({
+      ...loadStates(),
+      [key]: {
+        ...bounds,
+        isMaximized: win.isMaximized(),
+        displayId: screen.getDisplayMatching(win.getBounds()).id,
+        savedAt: Date.now(),
+      },
+    });
+  });
+}
@@ -0,0 +1,56 @@
+-- Read cursors, unread counts and last-message previews
+-- Run this in your Supabase SQL Editor
+
+-- Per-participant read cursor: messages created after this are unread.
+-- Existing participants start fully caught up.
+ALTER TABLE conversation_participants
+  ADD COLUMN IF NOT EXISTS last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Let users move their own read cursor. The policy picks the row; the column
+-- grant keeps conversation_id and user_id fixed, so a row can't be moved into
+-- another conversation.
+CREATE POLICY "Users can update own participation" ON conversation_participants
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+REVOKE UPDATE ON conversation_participants FROM anon, authenticated;
+GRANT UPDATE (last_read_at) ON conversation_participants TO authenticated;
+
+-- One row per conversation the caller is in: read cursor, unread count and the latest message.
+-- Runs as the caller, so the existing participant RLS still applies.
+CREATE OR REPLACE FUNCTION get_conversation_summaries()
+RETURNS TABLE (
+  conversation_id UUID,
+  last_read_at TIMESTAMPTZ,
+  unread_count BIGINT,
+  last_message_id UUID,
+  last_message_sender_id UUID,
+  last_message_content TEXT,
+  last_message_created_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    cp.conversation_id,
+    cp.last_read_at,
+    (
+      SELECT COUNT(*)
+      FROM messages m
+      WHERE m.conversation_id = cp.conversation_id
+        AND m.sender_id <> cp.user_id
+        AND m.created_at > cp.last_read_at
+    ) AS unread_count,
+    last_msg.id,
+    last_msg.sender_id,
+    last_msg.content,
+    last_msg.created_at
+  FROM conversation_participants cp
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.sender_id, m.content, m.created_at
+    FROM messages m
+    WHERE m.conversation_id = cp.conversation_id
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_msg ON TRUE
+  WHERE cp.user_id = auth.uid();
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_conversation_summaries() TO authenticated;
@@ -0,0 +1,183 @@
+-- AIM-style warnings: warning levels that decay and throttle sending
+-- Run this in your Supabase SQL Editor (after privacy-controls.sql)
+
+-- The stored level is as of warning_updated_at; the current level is that
+-- minus the decay since. src/utils/warnings.ts mirrors these numbers.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS warning_level SMALLINT NOT NULL DEFAULT 0
+  CHECK (warning_level BETWEEN 0 AND 100);
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS warning_updated_at TIMESTAMPTZ;
+
+-- Percentage points a warning level drops per hour
+CREATE OR REPLACE FUNCTION warning_decay_per_hour()
+RETURNS INTEGER AS $$
+  SELECT 10;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION current_warning_level(level SMALLINT, updated_at TIMESTAMPTZ)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN updated_at IS NULL THEN level
+    ELSE GREATEST(0, level - FLOOR(EXTRACT(EPOCH FROM NOW() - updated_at) / 3600 * warning_decay_per_hour())::INTEGER)
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Minimum seconds between messages at a warning level
+CREATE OR REPLACE FUNCTION warning_send_interval_seconds(level INTEGER)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN level >= 100 THEN 60
+    WHEN level >= 80 THEN 30
+    WHEN level >= 60 THEN 15
+    WHEN level >= 40 THEN 5
+    WHEN level >= 20 THEN 2
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Clients can update their own profile, so keep them away from these columns.
+-- warn_user runs as the function owner, which is the only way in.
+CREATE OR REPLACE FUNCTION prevent_warning_level_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon')
+    AND (NEW.warning_level IS DISTINCT FROM OLD.warning_level
+      OR NEW.warning_updated_at IS DISTINCT FROM OLD.warning_updated_at) THEN
+    RAISE EXCEPTION 'Warning levels cannot be changed directly';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_profile_warning_level_updated
+  BEFORE UPDATE OF warning_level, warning_updated_at ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_warning_level_change();
+
+-- Every warning given. Warners see their own; targets read theirs through
+-- received_warnings() so anonymous warners stay anonymous.
+CREATE TABLE warnings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  warner_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  target_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  anonymous BOOLEAN NOT NULL DEFAULT FALSE,
+  amount SMALLINT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (warner_id <> target_id)
+);
+
+CREATE INDEX idx_warnings_target_id ON warnings(target_id, created_at DESC);
+CREATE INDEX idx_warnings_warner_target ON warnings(warner_id, target_id, created_at DESC);
+
+ALTER TABLE warnings ENABLE ROW LEVEL SECURITY;
+
+-- Written only by warn_user
+CREATE POLICY "Users can view warnings they gave" ON warnings
+  FOR SELECT USING (warner_id = auth.uid());
+
+-- Raises target_user_id's warning level: 10 points, or 3 when anonymous.
+-- As in AIM you can only warn someone who has messaged you, once per message.
+-- Returns the target's new level.
+CREATE OR REPLACE FUNCTION warn_user(target_user_id UUID, warn_anonymously BOOLEAN DEFAULT FALSE)
+RETURNS INTEGER AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  last_warned_at TIMESTAMPTZ;
+  warn_amount SMALLINT := CASE WHEN warn_anonymously THEN 3 ELSE 10 END;
+  new_level INTEGER;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF target_user_id = caller_id THEN
+    RAISE EXCEPTION 'You cannot warn yourself';
+  END IF;
+
+  SELECT MAX(created_at) INTO last_warned_at
+  FROM warnings WHERE warner_id = caller_id AND target_user_id = target_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM messages m
+    JOIN conversation_participants cp ON cp.conversation_id = m.conversation_id AND cp.user_id = caller_id
+    WHERE m.sender_id = target_user_id
+      AND m.imported_at IS NULL
+      AND m.created_at > COALESCE(last_warned_at, '-infinity')
+  ) THEN
+    RAISE EXCEPTION 'You can only warn someone once for each message they send you';
+  END IF;
+
+  INSERT INTO warnings (warner_id, target_id, anonymous, amount)
+  VALUES (caller_id, target_user_id, warn_anonymously, warn_amount);
+
+  UPDATE profiles
+  SET warning_level = LEAST(100, current_warning_level(warning_level, warning_updated_at) + warn_amount),
+      warning_updated_at = NOW()
+  WHERE id = target_user_id
+  RETURNING warning_level INTO new_level;
+
+  RETURN new_level;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION warn_user(UUID, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION warn_user(UUID, BOOLEAN) TO authenticated;
+
+-- The caller's most recent warnings, with the warner's screen name unless anonymous
+CREATE OR REPLACE FUNCTION received_warnings(max_count INTEGER DEFAULT 20)
+RETURNS TABLE (id UUID, warner_screen_name TEXT, anonymous BOOLEAN, amount SMALLINT, created_at TIMESTAMPTZ) AS $$
+  SELECT w.id, CASE WHEN w.anonymous THEN NULL ELSE p.screen_name END, w.anonymous, w.amount, w.created_at
+  FROM warnings w
+  JOIN profiles p ON p.id = w.warner_id
+  WHERE w.target_id = auth.uid()
+  ORDER BY w.created_at DESC
+  LIMIT LEAST(max_count, 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION received_warnings(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION received_warnings(INTEGER) TO authenticated;
+
+-- Throttle warned users. PT429 comes back from the API as HTTP 429.
+CREATE INDEX IF NOT EXISTS idx_messages_sender_created_at ON messages(sender_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION enforce_warning_rate_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  sender_level INTEGER;
+  min_interval INTEGER;
+BEGIN
+  -- Imported history is old by definition
+  IF NEW.imported_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- The check below goes by created_at, so don't let the client pick it
+  NEW.created_at := NOW();
+
+  SELECT current_warning_level(warning_level, warning_updated_at) INTO sender_level
+  FROM profiles WHERE id = NEW.sender_id;
+
+  min_interval := warning_send_interval_seconds(COALESCE(sender_level, 0));
+  IF min_interval = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- One throttled send per sender at a time, so concurrent inserts can't all pass
+  PERFORM pg_advisory_xact_lock(hashtextextended(NEW.sender_id::text, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM messages
+    WHERE sender_id = NEW.sender_id
+      AND imported_at IS NULL
+      AND created_at > NOW() - make_interval(secs => min_interval)
+  ) THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'PT429',
+      MESSAGE = format('Sending too fast for a %s%% warning level', sender_level),
+      HINT = format('Wait %s seconds between messages', min_interval);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_message_rate_limit
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION enforce_warning_rate_limit();